@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { fetchTokenCatalog } from "@/src/lib/riftcodex";
+
+/** Token entries from the card catalog, trimmed to what a match needs to spawn one. */
+export async function GET() {
+  try {
+    const tokens = await fetchTokenCatalog();
+
+    return NextResponse.json(
+      { tokens },
+      {
+        headers: {
+          "Cache-Control": "public, s-maxage=43200, stale-while-revalidate=86400",
+        },
+      }
+    );
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load tokens" },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { createSupabaseServerClient } from "@/src/lib/supabaseServer";
+import { DECK_SELECT, mapDeckRow, saveDeckRecord } from "@/src/lib/decks";
+
+interface Params {
+  params: { id: string };
+}
+
+/** Copies a deck the caller can see (their own or a public one) into a new private deck they own. */
+export async function POST(request: NextRequest, { params }: Params) {
+  const deckId = params.id;
+  if (!deckId) {
+    return NextResponse.json({ error: "Deck id missing" }, { status: 400 });
+  }
+
+  const supabase = await createSupabaseServerClient({ allowCookieWrite: true });
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const { data: sourceRow } = await supabase
+    .from("decks")
+    .select(DECK_SELECT)
+    .eq("id", deckId)
+    .maybeSingle();
+
+  const source = sourceRow ? mapDeckRow(sourceRow) : null;
+  if (!source || (!source.isPublic && source.ownerId !== user.id)) {
+    return NextResponse.json({ error: "Deck not found" }, { status: 404 });
+  }
+
+  const body = (await request.json().catch(() => ({}))) as { name?: unknown };
+  const name =
+    typeof body.name === "string" && body.name.trim() ? body.name.trim() : `${source.name} (copy)`;
+
+  const saved = await saveDeckRecord(
+    supabase,
+    null,
+    {
+      name,
+      description: source.description,
+      format: source.format,
+      cover_card_id: source.coverCardId,
+      is_public: false,
+    },
+    source.cards,
+    `Copied from ${source.name}`
+  );
+
+  if ("error" in saved) {
+    return NextResponse.json({ error: saved.error }, { status: saved.status });
+  }
+
+  return NextResponse.json({ deck: saved.deck });
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { createSupabaseServerClient } from "@/src/lib/supabaseServer";
+import { saveDeckRecord } from "@/src/lib/decks";
+import { DECK_REVISION_SELECT, mapRevisionRow } from "@/src/lib/deckRevisions";
+
+interface Params {
+  params: { id: string; revisionId: string };
+}
+
+/**
+ * Puts an earlier revision's card list back on the deck. History is never rewritten: the restored
+ * list is saved as a new revision on top.
+ */
+export async function POST(_request: NextRequest, { params }: Params) {
+  const { id: deckId, revisionId } = params;
+  if (!deckId || !revisionId) {
+    return NextResponse.json({ error: "Deck or revision id missing" }, { status: 400 });
+  }
+
+  const supabase = await createSupabaseServerClient({ allowCookieWrite: true });
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  // Revisions are only readable by the deck's owner, so a missing row also covers other decks.
+  const { data: revisionRow } = await supabase
+    .from("deck_revisions")
+    .select(DECK_REVISION_SELECT)
+    .eq("id", revisionId)
+    .eq("deck_id", deckId)
+    .maybeSingle();
+
+  if (!revisionRow) {
+    return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+  }
+
+  const source = mapRevisionRow(revisionRow);
+
+  // An empty deck input keeps the name and settings; only the card list goes back.
+  const saved = await saveDeckRecord(
+    supabase,
+    deckId,
+    {},
+    source.cards,
+    `Restored revision ${source.revision}`
+  );
+
+  if ("error" in saved) {
+    return NextResponse.json({ error: saved.error }, { status: saved.status });
+  }
+
+  return NextResponse.json({ deck: saved.deck });
+}
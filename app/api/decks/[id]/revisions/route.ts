@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { createSupabaseServerClient } from "@/src/lib/supabaseServer";
+import { DECK_REVISION_SELECT, MAX_REVISIONS_LISTED, mapRevisionRow } from "@/src/lib/deckRevisions";
+import type { DeckRevision } from "@/src/types/deck";
+
+interface Params {
+  params: { id: string };
+}
+
+/** Lists a deck's saved revisions, newest first. Only the owner can see a deck's history. */
+export async function GET(_request: NextRequest, { params }: Params) {
+  const deckId = params.id;
+  if (!deckId) {
+    return NextResponse.json({ error: "Deck id missing" }, { status: 400 });
+  }
+
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const { data: deckOwner } = await supabase
+    .from("decks")
+    .select("id")
+    .eq("id", deckId)
+    .eq("owner_id", user.id)
+    .maybeSingle();
+
+  if (!deckOwner) {
+    return NextResponse.json({ error: "Deck not found" }, { status: 404 });
+  }
+
+  const { data, error } = await supabase
+    .from("deck_revisions")
+    .select(DECK_REVISION_SELECT)
+    .eq("deck_id", deckId)
+    .order("revision", { ascending: false })
+    .limit(MAX_REVISIONS_LISTED);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const revisions: DeckRevision[] = (data ?? []).map(mapRevisionRow);
+  return NextResponse.json({ revisions });
+}
@@ -1,39 +1,66 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { createSupabaseServerClient } from "@/src/lib/supabaseServer";
-import { mapDeckRow, normalizeDeckPayload, validateDeckRules } from "@/src/lib/decks";
+import {
+  DECK_SELECT,
+  mapDeckRow,
+  normalizeDeckPayload,
+  saveDeckRecord,
+  validateDeckRules,
+} from "@/src/lib/decks";
+import { normalizeRevisionNote } from "@/src/lib/deckRevisions";
 import type { DeckSummary } from "@/src/types/deck";
 
 interface Params {
   params: { id: string };
 }
 
-export async function PUT(request: NextRequest, { params }: Params) {
+/** Returns one deck. Private decks are only visible to their owner; anyone may read public ones. */
+export async function GET(_request: NextRequest, { params }: Params) {
   const deckId = params.id;
   if (!deckId) {
     return NextResponse.json({ error: "Deck id missing" }, { status: 400 });
   }
 
-  const supabase = await createSupabaseServerClient({ allowCookieWrite: true });
+  const supabase = await createSupabaseServerClient();
   const {
     data: { user },
   } = await supabase.auth.getUser();
 
-  if (!user) {
-    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-  }
-
-  const { data: deckOwner } = await supabase
+  const { data: deckRow, error } = await supabase
     .from("decks")
-    .select("id")
+    .select(DECK_SELECT)
     .eq("id", deckId)
-    .eq("owner_id", user.id)
     .maybeSingle();
 
-  if (!deckOwner) {
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const deck = deckRow ? mapDeckRow(deckRow) : null;
+  // RLS already hides other players' private decks; this keeps the rule explicit here too.
+  if (!deck || (!deck.isPublic && deck.ownerId !== user?.id)) {
     return NextResponse.json({ error: "Deck not found" }, { status: 404 });
   }
 
+  return NextResponse.json({ deck });
+}
+
+export async function PUT(request: NextRequest, { params }: Params) {
+  const deckId = params.id;
+  if (!deckId) {
+    return NextResponse.json({ error: "Deck id missing" }, { status: 400 });
+  }
+
+  const supabase = await createSupabaseServerClient({ allowCookieWrite: true });
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
   let payload: any;
   try {
     payload = await request.json();
@@ -52,61 +79,60 @@ export async function PUT(request: NextRequest, { params }: Params) {
     return NextResponse.json({ error: ruleCheck.errors.join(" ") }, { status: 400 });
   }
 
-  const { error: updateError } = await supabase
-    .from("decks")
-    .update({
+  // save_deck checks ownership and swaps the card list in the same transaction.
+  const saved = await saveDeckRecord(
+    supabase,
+    deckId,
+    {
       name: normalized.name,
       description: normalized.description ?? null,
       format: normalized.format ?? null,
       cover_card_id: normalized.coverCardId ?? null,
       is_public: Boolean(normalized.isPublic),
-    })
-    .eq("id", deckId);
+    },
+    normalized.cards,
+    normalizeRevisionNote(payload.note)
+  );
 
-  if (updateError) {
-    return NextResponse.json({ error: updateError.message }, { status: 500 });
+  if ("error" in saved) {
+    return NextResponse.json({ error: saved.error }, { status: saved.status });
   }
 
-  // Replace deck cards with new payload
-  const { error: deleteError } = await supabase.from("deck_cards").delete().eq("deck_id", deckId);
-  if (deleteError) {
-    return NextResponse.json({ error: deleteError.message }, { status: 500 });
+  return NextResponse.json({ deck: saved.deck });
+}
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  const deckId = params.id;
+  if (!deckId) {
+    return NextResponse.json({ error: "Deck id missing" }, { status: 400 });
   }
 
-  if (normalized.cards && normalized.cards.length > 0) {
-    const rows = normalized.cards.map((card) => ({
-      deck_id: deckId,
-      card_id: card.cardId,
-      card_name: card.cardName,
-      card_public_code: card.cardPublicCode ?? null,
-      quantity: card.quantity,
-      section: card.section,
-      card_domains: card.cardDomains ?? [],
-      card_supertype: card.cardSupertype ?? null,
-      card_type: card.cardType ?? null,
-    }));
-
-    const { error: insertError } = await supabase.from("deck_cards").insert(rows);
-    if (insertError) {
-      return NextResponse.json({ error: insertError.message }, { status: 500 });
-    }
+  const supabase = await createSupabaseServerClient({ allowCookieWrite: true });
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
   }
 
-  const { data: fullDeckRow, error: fetchError } = await supabase
+  const { data: deckRow } = await supabase
     .from("decks")
-    .select(
-      "id, owner_id, name, description, format, cover_card_id, is_public, created_at, updated_at, deck_cards(card_id, card_name, card_public_code, quantity, section, card_domains, card_supertype, card_type)"
-    )
+    .select(DECK_SELECT)
     .eq("id", deckId)
-    .single();
+    .eq("owner_id", user.id)
+    .maybeSingle();
+
+  if (!deckRow) {
+    return NextResponse.json({ error: "Deck not found" }, { status: 404 });
+  }
 
-  if (fetchError || !fullDeckRow) {
-    return NextResponse.json(
-      { error: fetchError?.message ?? "Deck saved but could not load" },
-      { status: 500 }
-    );
+  // Cards go with the deck via the foreign key; matches keep running with their own copy.
+  const { error: deleteError } = await supabase.from("decks").delete().eq("id", deckId);
+  if (deleteError) {
+    return NextResponse.json({ error: deleteError.message }, { status: 500 });
   }
 
-  const deck: DeckSummary = mapDeckRow(fullDeckRow);
+  const deck: DeckSummary = mapDeckRow(deckRow);
   return NextResponse.json({ deck });
 }
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { createSupabaseServerClient } from "@/src/lib/supabaseServer";
+import { searchRiftcodexCards } from "@/src/lib/riftcodex";
+import { normalizeDeckPayload } from "@/src/lib/decks";
+import { resolveDeckCode } from "@/src/lib/deckCodes";
+import { resolveDecklistText } from "@/src/lib/decklistText";
+
+/**
+ * Turns decklist text, or a deck code, into a deck payload ready for `POST /api/decks`. Nothing is
+ * saved; lines that match no card or several are returned alongside for the player to fix.
+ * Signed-in players only, since every line becomes a catalog lookup.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const body = (await request.json().catch(() => ({}))) as {
+    text?: unknown;
+    code?: unknown;
+    name?: unknown;
+  };
+  const name = typeof body.name === "string" && body.name.trim() ? body.name.trim() : undefined;
+
+  let result;
+  if (typeof body.code === "string" && body.code.trim()) {
+    const resolved = await resolveDeckCode(body.code, searchRiftcodexCards, name);
+    if ("error" in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: 400 });
+    }
+    result = resolved;
+  } else if (typeof body.text === "string" && body.text.trim()) {
+    result = await resolveDecklistText(body.text, searchRiftcodexCards, name);
+  } else {
+    return NextResponse.json({ error: "Paste a decklist or deck code to import" }, { status: 400 });
+  }
+
+  return NextResponse.json({
+    deck: normalizeDeckPayload(result.payload),
+    unknown: result.unknown,
+    ambiguous: result.ambiguous,
+  });
+}
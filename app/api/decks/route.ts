@@ -1,9 +1,74 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { createSupabaseServerClient } from "@/src/lib/supabaseServer";
-import { mapDeckRow, normalizeDeckPayload, validateDeckRules } from "@/src/lib/decks";
+import {
+  DECK_SELECT,
+  mapDeckRow,
+  normalizeDeckPayload,
+  saveDeckRecord,
+  validateDeckRules,
+} from "@/src/lib/decks";
+import { normalizeRevisionNote } from "@/src/lib/deckRevisions";
 import type { DeckSummary } from "@/src/types/deck";
 
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+function parsePositiveInt(value: string | null, fallback: number) {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Lists decks a page at a time. By default these are the caller's own decks; `public=true` lists
+ * everyone's public decks instead and `public=false` only the caller's private ones. `format`
+ * narrows either list.
+ */
+export async function GET(request: NextRequest) {
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { searchParams } = request.nextUrl;
+  const publicFilter = searchParams.get("public");
+  const listsPublic = publicFilter === "true";
+
+  if (!user && !listsPublic) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const page = parsePositiveInt(searchParams.get("page"), 1);
+  const pageSize = Math.min(parsePositiveInt(searchParams.get("pageSize"), DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+  const from = (page - 1) * pageSize;
+
+  let query = supabase.from("decks").select(DECK_SELECT, { count: "exact" });
+  if (listsPublic) {
+    query = query.eq("is_public", true);
+  } else {
+    query = query.eq("owner_id", user?.id ?? "");
+    if (publicFilter === "false") {
+      query = query.eq("is_public", false);
+    }
+  }
+
+  const format = searchParams.get("format")?.trim();
+  if (format) {
+    query = query.eq("format", format);
+  }
+
+  const { data, error, count } = await query
+    .order("updated_at", { ascending: false })
+    .range(from, from + pageSize - 1);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const decks: DeckSummary[] = (data ?? []).map(mapDeckRow);
+  return NextResponse.json({ decks, page, pageSize, total: count ?? decks.length });
+}
+
 export async function POST(request: NextRequest) {
   const supabase = await createSupabaseServerClient({ allowCookieWrite: true });
   const {
@@ -32,63 +97,23 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: ruleCheck.errors.join(" ") }, { status: 400 });
   }
 
-  const { data: deckRow, error } = await supabase
-    .from("decks")
-    .insert({
-      owner_id: user.id,
+  const saved = await saveDeckRecord(
+    supabase,
+    null,
+    {
       name: normalized.name,
       description: normalized.description ?? null,
       format: normalized.format ?? null,
       cover_card_id: normalized.coverCardId ?? null,
       is_public: Boolean(normalized.isPublic),
-    })
-    .select("id")
-    .single();
-
-  if (error || !deckRow) {
-    return NextResponse.json(
-      { error: error?.message ?? "Failed to create deck" },
-      { status: 500 }
-    );
-  }
-
-  if (normalized.cards && normalized.cards.length > 0) {
-    const rows = normalized.cards.map((card) => ({
-      deck_id: deckRow.id,
-      card_id: card.cardId,
-      card_name: card.cardName,
-      card_public_code: card.cardPublicCode ?? null,
-      quantity: card.quantity,
-      section: card.section,
-      card_domains: card.cardDomains ?? [],
-      card_supertype: card.cardSupertype ?? null,
-      card_type: card.cardType ?? null,
-    }));
-
-    const { error: cardsError } = await supabase.from("deck_cards").insert(rows);
-    if (cardsError) {
-      return NextResponse.json(
-        { error: cardsError.message },
-        { status: 500 }
-      );
-    }
-  }
+    },
+    normalized.cards,
+    normalizeRevisionNote(payload.note)
+  );
 
-  const { data: fullDeckRow, error: fetchError } = await supabase
-    .from("decks")
-    .select(
-      "id, owner_id, name, description, format, cover_card_id, is_public, created_at, updated_at, deck_cards(card_id, card_name, card_public_code, quantity, section, card_domains, card_supertype, card_type)"
-    )
-    .eq("id", deckRow.id)
-    .single();
-
-  if (fetchError || !fullDeckRow) {
-    return NextResponse.json(
-      { error: fetchError?.message ?? "Deck created but could not load" },
-      { status: 500 }
-    );
+  if ("error" in saved) {
+    return NextResponse.json({ error: saved.error }, { status: saved.status });
   }
 
-  const deck: DeckSummary = mapDeckRow(fullDeckRow);
-  return NextResponse.json({ deck });
+  return NextResponse.json({ deck: saved.deck });
 }
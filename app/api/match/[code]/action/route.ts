@@ -2,43 +2,20 @@ import { NextResponse } from "next/server";
 import { createSupabaseServerClient } from "@/src/lib/supabaseServer";
 import { createSupabaseAdminClient } from "@/src/lib/supabaseAdmin";
 import {
-  adjustLifeTotal,
-  drawCards,
-  endTurn,
-  moveCardBetweenZones,
-  mulliganHand,
-  shuffleDeck,
-  validateZone,
-} from "@/src/lib/matchState";
-import type { MatchState, PlayerSlot, ZoneKey } from "@/src/types/match";
-
-type ActionType =
-  | "draw-card"
-  | "shuffle-deck"
-  | "move-card"
-  | "mulligan"
-  | "life-change"
-  | "end-turn";
-
-type ActionPayload = Record<string, unknown>;
-
-function normalizePlayer(payloadPlayer: unknown, fallback: PlayerSlot): PlayerSlot {
-  if (payloadPlayer === "p1" || payloadPlayer === "p2") {
-    return payloadPlayer;
-  }
-  return fallback;
-}
-
-function ensureZone(value: unknown): ZoneKey | null {
-  if (typeof value === "string" && validateZone(value)) {
-    return value;
-  }
-  return null;
-}
-
-function cardExists(state: MatchState, slot: PlayerSlot, zone: ZoneKey, cardUid: string) {
-  return state.players[slot].zones[zone].some((card) => card.uid === cardUid);
-}
+  applyMatchAction,
+  type MatchActionPayload,
+  type MatchActionType,
+} from "@/src/lib/matchActions";
+import { applyUndoAction, isUndoAction, type UndoActionType } from "@/src/lib/matchUndo";
+import {
+  commitMatchState,
+  loadMatchState,
+  MAX_COMMIT_ATTEMPTS,
+  recordSetResults,
+} from "@/src/lib/matchStore";
+import { projectMatchState } from "@/src/lib/matchView";
+import { fetchTokenCatalog } from "@/src/lib/riftcodex";
+import type { PlayerSlot } from "@/src/types/match";
 
 export async function POST(
   request: Request,
@@ -55,9 +32,10 @@ export async function POST(
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const { type, payload } = (await request.json().catch(() => ({}))) as {
-    type?: ActionType;
-    payload?: ActionPayload;
+  const { type, payload, baseVersion } = (await request.json().catch(() => ({}))) as {
+    type?: MatchActionType | UndoActionType;
+    payload?: MatchActionPayload;
+    baseVersion?: number;
   };
 
   if (!type) {
@@ -85,106 +63,68 @@ export async function POST(
     return NextResponse.json({ error: "Only players can mutate the match" }, { status: 403 });
   }
 
-  const { data: stateRow, error: stateError } = await admin
-    .from("match_state")
-    .select("state")
-    .eq("match_id", match.id)
-    .single();
-
-  if (stateError || !stateRow) {
-    return NextResponse.json({ error: stateError?.message ?? "Match state missing" }, { status: 500 });
-  }
-
-  const state = stateRow.state as MatchState;
-  const resolvedPayload = payload ?? {};
-  const eventPayload: Record<string, unknown> = { actor: actorSlot, type };
-
-  switch (type) {
-    case "draw-card": {
-      const target = normalizePlayer(resolvedPayload.player, actorSlot);
-      const count = typeof resolvedPayload.count === "number" ? resolvedPayload.count : 1;
-      drawCards(state, target, Math.max(1, count));
-      eventPayload.player = target;
-      eventPayload.count = Math.max(1, count);
-      break;
+  // Tokens always come from the card catalog: only the id is taken from the client, so nobody
+  // can spawn a made-up card or point its art at an arbitrary host.
+  let actionPayload: MatchActionPayload = payload ?? {};
+  if (type === "create-token") {
+    const requested = actionPayload.token as { cardId?: unknown } | undefined;
+    const tokens = await fetchTokenCatalog().catch(() => null);
+    if (!tokens) {
+      return NextResponse.json({ error: "Failed to load tokens" }, { status: 502 });
     }
-    case "shuffle-deck": {
-      const target = normalizePlayer(resolvedPayload.player, actorSlot);
-      shuffleDeck(state, target);
-      eventPayload.player = target;
-      break;
+    const token = tokens.find((entry) => entry.cardId && entry.cardId === requested?.cardId);
+    if (!token) {
+      return NextResponse.json({ error: "Unknown token" }, { status: 400 });
     }
-    case "move-card": {
-      const cardUid = typeof resolvedPayload.cardUid === "string" ? resolvedPayload.cardUid : null;
-      const fromSlot = normalizePlayer(resolvedPayload.fromSlot, actorSlot);
-      const toSlot = normalizePlayer(resolvedPayload.toSlot, actorSlot);
-      const fromZone = ensureZone(resolvedPayload.fromZone);
-      const toZone = ensureZone(resolvedPayload.toZone);
-      const position = resolvedPayload.position === "bottom" ? "bottom" : "top";
-
-      if (!cardUid || !fromZone || !toZone) {
-        return NextResponse.json({ error: "Invalid move parameters" }, { status: 400 });
-      }
+    actionPayload = { ...actionPayload, token };
+  }
 
-      if (!cardExists(state, fromSlot, fromZone, cardUid)) {
-        return NextResponse.json({ error: "Card not found in source zone" }, { status: 400 });
-      }
+  const expectedVersion = typeof baseVersion === "number" ? baseVersion : null;
+
+  for (let attempt = 0; attempt < MAX_COMMIT_ATTEMPTS; attempt += 1) {
+    const loaded = await loadMatchState(admin, match.id);
+    if ("error" in loaded) {
+      return NextResponse.json({ error: loaded.error }, { status: 500 });
+    }
 
-      moveCardBetweenZones(
-        state,
-        { slot: fromSlot, zone: fromZone },
-        { slot: toSlot, zone: toZone },
-        cardUid,
-        position
+    // The client acted on an older board; hand back the current one instead of guessing.
+    if (expectedVersion !== null && loaded.version !== expectedVersion) {
+      return NextResponse.json(
+        {
+          error: "The match changed before your action landed. Check the board and try again.",
+          state: projectMatchState(loaded.state, actorSlot),
+          version: loaded.version,
+        },
+        { status: 409 }
       );
+    }
 
-      eventPayload.cardUid = cardUid;
-      eventPayload.from = { slot: fromSlot, zone: fromZone };
-      eventPayload.to = { slot: toSlot, zone: toZone };
-      eventPayload.position = position;
-      break;
+    const actor = { slot: actorSlot, userId: user.id };
+    const result = isUndoAction(type)
+      ? await applyUndoAction(admin, match, loaded.state, actor, type, actionPayload)
+      : applyMatchAction(loaded.state, actor, type, actionPayload);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
     }
-    case "mulligan": {
-      const target = normalizePlayer(resolvedPayload.player, actorSlot);
-      mulliganHand(state, target);
-      eventPayload.player = target;
-      break;
+
+    const commit = await commitMatchState(admin, match.id, loaded.version, loaded.state, result.events);
+    if ("error" in commit) {
+      return NextResponse.json({ error: commit.error }, { status: 500 });
     }
-    case "life-change": {
-      const target = normalizePlayer(resolvedPayload.player, actorSlot);
-      const delta = typeof resolvedPayload.delta === "number" ? resolvedPayload.delta : 0;
-      if (delta === 0) {
-        return NextResponse.json({ error: "Delta must be non-zero" }, { status: 400 });
+
+    if ("version" in commit) {
+      if (result.events.some((event) => event.type === "match_ended")) {
+        await recordSetResults(admin, match.id, loaded.state);
       }
-      adjustLifeTotal(state, target, delta);
-      eventPayload.player = target;
-      eventPayload.delta = delta;
-      break;
-    }
-    case "end-turn": {
-      endTurn(state);
-      eventPayload.turn = state.turn;
-      break;
+      return NextResponse.json({
+        success: true,
+        state: projectMatchState(loaded.state, actorSlot),
+        version: commit.version,
+      });
     }
-    default:
-      return NextResponse.json({ error: "Unsupported action" }, { status: 400 });
-  }
-
-  const { error: updateError } = await admin
-    .from("match_state")
-    .update({ state })
-    .eq("match_id", match.id);
-
-  if (updateError) {
-    return NextResponse.json({ error: updateError.message }, { status: 500 });
+    // Another write won the race. Unpinned actions are re-applied to the fresh state; pinned
+    // ones fall into the stale check above on the next pass.
   }
 
-  await admin.from("match_events").insert({
-    match_id: match.id,
-    player_id: user.id,
-    type,
-    payload: eventPayload,
-  });
-
-  return NextResponse.json({ success: true });
+  return NextResponse.json({ error: "The match is busy, try again" }, { status: 409 });
 }
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/src/lib/supabaseServer";
+import { createSupabaseAdminClient } from "@/src/lib/supabaseAdmin";
+import { CANNED_MESSAGES, MAX_MESSAGE_LENGTH, messageChannelFor } from "@/src/lib/matchChat";
+import { resolveViewer } from "@/src/lib/matchView";
+
+export async function POST(
+  request: Request,
+  { params }: { params: { code: string } }
+) {
+  const { code } = params;
+  const supabase = await createSupabaseServerClient({ allowCookieWrite: true });
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { body } = (await request.json().catch(() => ({}))) as { body?: unknown };
+  const text = typeof body === "string" ? body.trim() : "";
+
+  if (!text) {
+    return NextResponse.json({ error: "Message is empty" }, { status: 400 });
+  }
+
+  if (text.length > MAX_MESSAGE_LENGTH) {
+    return NextResponse.json(
+      { error: `Messages are limited to ${MAX_MESSAGE_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  const admin = createSupabaseAdminClient();
+  const normalizedCode = code.trim().toUpperCase();
+
+  const { data: match, error: matchError } = await admin
+    .from("matches")
+    .select("id, player1_id, player2_id, spectators_allowed, kicked_spectator_ids")
+    .eq("code", normalizedCode)
+    .single();
+
+  if (matchError || !match) {
+    return NextResponse.json({ error: "Match not found" }, { status: 404 });
+  }
+
+  const viewer = resolveViewer(match, user.id);
+  if (!viewer) {
+    return NextResponse.json({ error: "Spectating is disabled for this match" }, { status: 403 });
+  }
+
+  const { data: profile } = await admin
+    .from("profiles")
+    .select("username")
+    .eq("id", user.id)
+    .maybeSingle();
+
+  // The channel comes from the sender's seat, never from the request, so spectators can't coach.
+  const { data: message, error: insertError } = await admin
+    .from("match_messages")
+    .insert({
+      match_id: match.id,
+      sender_id: user.id,
+      sender_name: profile?.username ?? null,
+      channel: messageChannelFor(viewer),
+      body: text,
+      canned: CANNED_MESSAGES.includes(text),
+    })
+    .select("id, match_id, sender_id, sender_name, channel, body, canned, created_at")
+    .single();
+
+  if (insertError || !message) {
+    return NextResponse.json({ error: insertError?.message ?? "Unable to send message" }, { status: 500 });
+  }
+
+  return NextResponse.json({ message });
+}
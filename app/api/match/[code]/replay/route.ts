@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/src/lib/supabaseServer";
+import { createSupabaseAdminClient } from "@/src/lib/supabaseAdmin";
+import { auditShuffles, buildReplayFrames, loadReplayLog } from "@/src/lib/matchReplay";
+import { setWinner } from "@/src/lib/matchSets";
+import { loadMatchState } from "@/src/lib/matchStore";
+import { projectMatchState, resolveViewer } from "@/src/lib/matchView";
+
+export async function GET(
+  request: Request,
+  { params }: { params: { code: string } }
+) {
+  const { code } = params;
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const admin = createSupabaseAdminClient();
+  const normalizedCode = code.trim().toUpperCase();
+
+  const { data: match, error: matchError } = await admin
+    .from("matches")
+    .select("id, player1_id, player2_id, spectators_allowed, kicked_spectator_ids")
+    .eq("code", normalizedCode)
+    .single();
+
+  if (matchError || !match) {
+    return NextResponse.json({ error: "Match not found" }, { status: 404 });
+  }
+
+  const viewer = resolveViewer(match, user.id);
+  if (!viewer) {
+    return NextResponse.json({ error: "Spectating is disabled for this match" }, { status: 403 });
+  }
+
+  const current = await loadMatchState(admin, match.id);
+  if ("error" in current) {
+    return NextResponse.json({ error: current.error }, { status: 500 });
+  }
+
+  const log = await loadReplayLog(admin, match.id, current);
+  if ("error" in log) {
+    return NextResponse.json({ error: log.error }, { status: 404 });
+  }
+
+  const { frames, complete } = buildReplayFrames(log);
+  // Between the games of a set the board already has a winner, but the frames still hold both
+  // players' registered lists and sideboard swaps; hidden zones only open once the set is decided.
+  const set = current.state.set;
+  const ended = Boolean(current.state.winner) && (!set || Boolean(setWinner(set)));
+  const revealed = ended && new URL(request.url).searchParams.get("reveal") === "1";
+  const seed = current.state.shuffle?.seed;
+
+  return NextResponse.json(
+    {
+      ended,
+      revealed,
+      complete,
+      audit: revealed && seed ? auditShuffles(log, frames, seed) : null,
+      frames: frames.map((frame) => ({
+        ...frame,
+        state: revealed ? frame.state : projectMatchState(frame.state, viewer),
+      })),
+    },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
@@ -0,0 +1,136 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/src/lib/supabaseServer";
+import { createSupabaseAdminClient } from "@/src/lib/supabaseAdmin";
+import type { MatchEventDraft } from "@/src/lib/matchActions";
+import { fetchCardImages } from "@/src/lib/matchDecks";
+import {
+  buildNextGameState,
+  lockSideboard,
+  nextGameDecklists,
+  sideboardingComplete,
+} from "@/src/lib/matchSets";
+import { hashShuffleSeed } from "@/src/lib/matchShuffle";
+import { buildPlayerSetup } from "@/src/lib/matchState";
+import { commitMatchState, loadMatchState, MAX_COMMIT_ATTEMPTS } from "@/src/lib/matchStore";
+import { projectMatchState } from "@/src/lib/matchView";
+import type { MatchState, PlayerSlot } from "@/src/types/match";
+
+/**
+ * Locks in one player's sideboarding between games of a set. Once both players have locked in,
+ * the next game's board replaces the finished one in the same commit.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { code: string } }
+) {
+  const { code } = params;
+  const supabase = await createSupabaseServerClient({ allowCookieWrite: true });
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { swaps, firstPlayer } = (await request.json().catch(() => ({}))) as {
+    swaps?: unknown;
+    firstPlayer?: unknown;
+  };
+
+  const admin = createSupabaseAdminClient();
+  const normalizedCode = code.trim().toUpperCase();
+
+  const { data: match, error: matchError } = await admin
+    .from("matches")
+    .select("id, player1_id, player2_id")
+    .eq("code", normalizedCode)
+    .single();
+
+  if (matchError || !match) {
+    return NextResponse.json({ error: "Match not found" }, { status: 404 });
+  }
+
+  let actorSlot: PlayerSlot | null = null;
+  if (match.player1_id === user.id) actorSlot = "p1";
+  if (match.player2_id === user.id) actorSlot = actorSlot ?? "p2";
+
+  if (!actorSlot) {
+    return NextResponse.json({ error: "Only players can sideboard" }, { status: 403 });
+  }
+
+  for (let attempt = 0; attempt < MAX_COMMIT_ATTEMPTS; attempt += 1) {
+    const loaded = await loadMatchState(admin, match.id);
+    if ("error" in loaded) {
+      return NextResponse.json({ error: loaded.error }, { status: 500 });
+    }
+
+    const failure = lockSideboard(loaded.state, actorSlot, { swaps, firstPlayer });
+    if (failure) {
+      return NextResponse.json({ error: failure.error }, { status: failure.status });
+    }
+
+    // Swaps stay private: the log only says who locked in.
+    const events: MatchEventDraft[] = [
+      {
+        player_id: user.id,
+        type: "sideboard_locked",
+        payload: { actor: actorSlot, player: actorSlot },
+        detail: { payload: { swaps, firstPlayer } },
+      },
+    ];
+    let nextState: MatchState = loaded.state;
+
+    if (sideboardingComplete(loaded.state)) {
+      const decklists = nextGameDecklists(loaded.state);
+      if (!decklists) {
+        return NextResponse.json({ error: "Unable to build the next game's decks" }, { status: 500 });
+      }
+      const cardIds = Array.from(
+        new Set([...decklists.p1, ...decklists.p2].map((entry) => entry.cardId))
+      );
+      const images = await fetchCardImages(cardIds);
+      const setups = {
+        p1: buildPlayerSetup(decklists.p1, "p1", images),
+        p2: buildPlayerSetup(decklists.p2, "p2", images),
+      };
+      // Kept in list order before the shuffles below rearrange them.
+      const unshuffled = structuredClone(setups);
+      const next = buildNextGameState(loaded.state, setups);
+      if (!next) {
+        return NextResponse.json({ error: "Unable to start the next game" }, { status: 500 });
+      }
+
+      nextState = next.state;
+      events.push({
+        player_id: null,
+        type: "game_started",
+        payload: {
+          game: next.state.set?.game ?? null,
+          firstPlayer: next.state.firstPlayer,
+          seedCommitment: next.state.shuffle.seed ? hashShuffleSeed(next.state.shuffle.seed) : null,
+          shuffles: next.shuffles.map(({ zone, index, commitment }) => ({ zone, index, commitment })),
+        },
+        // No seed or deck orders here: replays re-deal the game from these unshuffled setups
+        // once the game's seed is revealed, the same way a seated player's setup is kept.
+        detail: { game: next.state.set?.game ?? null, setups: unshuffled },
+      });
+    }
+
+    const commit = await commitMatchState(admin, match.id, loaded.version, nextState, events);
+    if ("error" in commit) {
+      return NextResponse.json({ error: commit.error }, { status: 500 });
+    }
+
+    if ("version" in commit) {
+      return NextResponse.json({
+        success: true,
+        state: projectMatchState(nextState, actorSlot),
+        version: commit.version,
+      });
+    }
+  }
+
+  return NextResponse.json({ error: "The match is busy, try again" }, { status: 409 });
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/src/lib/supabaseServer";
+import { createSupabaseAdminClient } from "@/src/lib/supabaseAdmin";
+
+/**
+ * Host controls for spectators: `{ allowed }` opens or closes spectating, `{ kick }` removes one
+ * spectator for the rest of the match. Both are logged so players see what changed.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { code: string } }
+) {
+  const { code } = params;
+  const supabase = await createSupabaseServerClient({ allowCookieWrite: true });
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = (await request.json().catch(() => ({}))) as { allowed?: unknown; kick?: unknown };
+  const admin = createSupabaseAdminClient();
+  const normalizedCode = code.trim().toUpperCase();
+
+  const { data: match, error: matchError } = await admin
+    .from("matches")
+    .select("id, player1_id, player2_id, spectators_allowed, kicked_spectator_ids")
+    .eq("code", normalizedCode)
+    .single();
+
+  if (matchError || !match) {
+    return NextResponse.json({ error: "Match not found" }, { status: 404 });
+  }
+
+  if (match.player1_id !== user.id) {
+    return NextResponse.json({ error: "Only the host can manage spectators" }, { status: 403 });
+  }
+
+  if (typeof body.allowed === "boolean") {
+    const { error } = await admin
+      .from("matches")
+      .update({ spectators_allowed: body.allowed })
+      .eq("id", match.id);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    await admin.from("match_events").insert({
+      match_id: match.id,
+      player_id: user.id,
+      type: body.allowed ? "spectators_opened" : "spectators_closed",
+      payload: { actor: "p1" },
+    });
+
+    return NextResponse.json({ spectatorsAllowed: body.allowed });
+  }
+
+  if (typeof body.kick === "string" && body.kick) {
+    if (body.kick === match.player1_id || body.kick === match.player2_id) {
+      return NextResponse.json({ error: "Players can't be removed from their own match" }, { status: 400 });
+    }
+
+    const kicked = new Set<string>(match.kicked_spectator_ids ?? []);
+    kicked.add(body.kick);
+    const { error } = await admin
+      .from("matches")
+      .update({ kicked_spectator_ids: Array.from(kicked) })
+      .eq("id", match.id);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const { data: profile } = await admin
+      .from("profiles")
+      .select("username")
+      .eq("id", body.kick)
+      .maybeSingle();
+
+    await admin.from("match_events").insert({
+      match_id: match.id,
+      player_id: user.id,
+      type: "spectator_kicked",
+      payload: { actor: "p1", name: profile?.username ?? null },
+    });
+
+    return NextResponse.json({ kicked: body.kick });
+  }
+
+  return NextResponse.json({ error: "Nothing to change" }, { status: 400 });
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/src/lib/supabaseServer";
+import { createSupabaseAdminClient } from "@/src/lib/supabaseAdmin";
+import { loadMatchState } from "@/src/lib/matchStore";
+import { projectMatchState, resolveViewer } from "@/src/lib/matchView";
+
+export async function GET(
+  request: Request,
+  { params }: { params: { code: string } }
+) {
+  const { code } = params;
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const admin = createSupabaseAdminClient();
+  const normalizedCode = code.trim().toUpperCase();
+
+  const { data: match, error: matchError } = await admin
+    .from("matches")
+    .select("id, player1_id, player2_id, spectators_allowed, kicked_spectator_ids")
+    .eq("code", normalizedCode)
+    .single();
+
+  if (matchError || !match) {
+    return NextResponse.json({ error: "Match not found" }, { status: 404 });
+  }
+
+  const viewer = resolveViewer(match, user.id);
+  if (!viewer) {
+    return NextResponse.json({ error: "Spectating is disabled for this match" }, { status: 403 });
+  }
+
+  const loaded = await loadMatchState(admin, match.id);
+  if ("error" in loaded) {
+    return NextResponse.json({ error: loaded.error }, { status: 500 });
+  }
+
+  return NextResponse.json(
+    { state: projectMatchState(loaded.state, viewer), version: loaded.version },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
@@ -1,16 +1,10 @@
 import { NextResponse } from "next/server";
 import { createSupabaseServerClient } from "@/src/lib/supabaseServer";
 import { createSupabaseAdminClient } from "@/src/lib/supabaseAdmin";
-import { createInitialMatchState } from "@/src/lib/matchState";
-
-function generateCode(length = 6) {
-  const alphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
-  let value = "";
-  for (let i = 0; i < length; i += 1) {
-    value += alphabet[Math.floor(Math.random() * alphabet.length)];
-  }
-  return value;
-}
+import { DEFAULT_VICTORY_TARGET } from "@/src/lib/matchState";
+import { loadMatchDeck } from "@/src/lib/matchDecks";
+import { normalizeBestOf } from "@/src/lib/matchSets";
+import { createMatch } from "@/src/lib/matchSetup";
 
 export async function POST(request: Request) {
   const supabase = await createSupabaseServerClient({ allowCookieWrite: true });
@@ -23,65 +17,34 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const admin = createSupabaseAdminClient();
   const body = (await request.json().catch(() => ({}))) as {
     spectatorsAllowed?: boolean;
+    isPublic?: boolean;
+    deckId?: string;
+    victoryTarget?: number;
+    bestOf?: number;
   };
 
-  const spectatorsAllowed = body.spectatorsAllowed ?? true;
-
-  let code = "";
-  let attempt = 0;
-  const maxAttempts = 5;
-
-  while (attempt < maxAttempts) {
-    code = generateCode(6 + (attempt > 1 ? 1 : 0));
-    const { data: existing } = await admin
-      .from("matches")
-      .select("id")
-      .eq("code", code)
-      .maybeSingle();
-
-    if (!existing) break;
-    attempt += 1;
+  const deckResult = await loadMatchDeck(supabase, body.deckId);
+  if ("error" in deckResult) {
+    return NextResponse.json({ error: deckResult.error }, { status: deckResult.status });
   }
 
-  if (!code) {
-    return NextResponse.json({ error: "Could not generate match code" }, { status: 500 });
-  }
+  const victoryTarget =
+    typeof body.victoryTarget === "number" && body.victoryTarget >= 1 && body.victoryTarget <= 30
+      ? Math.trunc(body.victoryTarget)
+      : DEFAULT_VICTORY_TARGET;
 
-  const { data: match, error: matchError } = await admin
-    .from("matches")
-    .insert({
-      code,
-      player1_id: user.id,
-      spectators_allowed: spectatorsAllowed,
-    })
-    .select()
-    .single();
-
-  if (matchError || !match) {
-    return NextResponse.json(
-      { error: matchError?.message ?? "Failed to create match" },
-      { status: 500 }
-    );
-  }
-
-  const initialState = createInitialMatchState(user.id, null);
-  const { error: stateError } = await admin
-    .from("match_state")
-    .insert({ match_id: match.id, state: initialState });
+  const created = await createMatch(createSupabaseAdminClient(), user.id, deckResult, {
+    spectatorsAllowed: body.spectatorsAllowed ?? true,
+    isPublic: body.isPublic === true,
+    victoryTarget,
+    bestOf: normalizeBestOf(body.bestOf),
+  });
 
-  if (stateError) {
-    return NextResponse.json({ error: stateError.message }, { status: 500 });
+  if ("error" in created) {
+    return NextResponse.json({ error: created.error }, { status: 500 });
   }
 
-  await admin.from("match_events").insert({
-    match_id: match.id,
-    player_id: user.id,
-    type: "match_created",
-    payload: { spectatorsAllowed },
-  });
-
-  return NextResponse.json({ code: match.code });
+  return NextResponse.json({ code: created.match.code });
 }
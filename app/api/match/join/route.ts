@@ -1,8 +1,8 @@
 import { NextResponse } from "next/server";
 import { createSupabaseServerClient } from "@/src/lib/supabaseServer";
 import { createSupabaseAdminClient } from "@/src/lib/supabaseAdmin";
-import { assignPlayerTwo } from "@/src/lib/matchState";
-import type { MatchState } from "@/src/types/match";
+import { loadMatchDeck } from "@/src/lib/matchDecks";
+import { seatPlayerTwo } from "@/src/lib/matchSetup";
 
 export async function POST(request: Request) {
   const supabase = await createSupabaseServerClient({ allowCookieWrite: true });
@@ -15,7 +15,10 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  const { code } = (await request.json().catch(() => ({}))) as { code?: string };
+  const { code, deckId } = (await request.json().catch(() => ({}))) as {
+    code?: string;
+    deckId?: string;
+  };
   if (!code) {
     return NextResponse.json({ error: "Match code is required" }, { status: 400 });
   }
@@ -41,43 +44,15 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Match is already full" }, { status: 409 });
   }
 
-  const { error: updateError } = await admin
-    .from("matches")
-    .update({ player2_id: user.id })
-    .eq("id", match.id);
-
-  if (updateError) {
-    return NextResponse.json({ error: updateError.message }, { status: 500 });
+  const deckResult = await loadMatchDeck(supabase, deckId);
+  if ("error" in deckResult) {
+    return NextResponse.json({ error: deckResult.error }, { status: deckResult.status });
   }
 
-  const { data: stateRow, error: stateError } = await admin
-    .from("match_state")
-    .select("state")
-    .eq("match_id", match.id)
-    .single();
-
-  if (stateError || !stateRow) {
-    return NextResponse.json({ error: stateError?.message ?? "State missing" }, { status: 500 });
+  const failure = await seatPlayerTwo(admin, match.id, user.id, deckResult);
+  if (failure) {
+    return NextResponse.json({ error: failure.error }, { status: failure.status });
   }
 
-  const state = stateRow.state as MatchState;
-  assignPlayerTwo(state, user.id);
-
-  const { error: stateUpdateError } = await admin
-    .from("match_state")
-    .update({ state })
-    .eq("match_id", match.id);
-
-  if (stateUpdateError) {
-    return NextResponse.json({ error: stateUpdateError.message }, { status: 500 });
-  }
-
-  await admin.from("match_events").insert({
-    match_id: match.id,
-    player_id: user.id,
-    type: "player_joined",
-    payload: { slot: "p2" },
-  });
-
   return NextResponse.json({ code: match.code });
 }
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/src/lib/supabaseServer";
+import { createSupabaseAdminClient } from "@/src/lib/supabaseAdmin";
+import type { LiveGame } from "@/src/types/match";
+
+const MAX_LIVE_GAMES = 30;
+
+// Matches nobody has finished within a day are treated as abandoned and drop off the list.
+const LIVE_GAME_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/** Matches with both seats filled and no set winner yet that the caller may watch. */
+export async function GET() {
+  const supabase = await createSupabaseServerClient({ allowCookieWrite: true });
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Player names live in profiles, which players can't read for each other.
+  const admin = createSupabaseAdminClient();
+  const { data: matches, error } = await admin
+    .from("matches")
+    .select("code, player1_id, player2_id, best_of, game_results, kicked_spectator_ids, created_at")
+    .eq("spectators_allowed", true)
+    .not("player2_id", "is", null)
+    .is("set_winner_id", null)
+    .neq("player1_id", user.id)
+    .neq("player2_id", user.id)
+    .gte("created_at", new Date(Date.now() - LIVE_GAME_MAX_AGE_MS).toISOString())
+    .order("created_at", { ascending: false })
+    .limit(MAX_LIVE_GAMES);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const watchable = (matches ?? []).filter(
+    (match) => !((match.kicked_spectator_ids ?? []) as string[]).includes(user.id)
+  );
+  const playerIds = Array.from(
+    new Set(watchable.flatMap((match) => [match.player1_id as string, match.player2_id as string]))
+  );
+  const { data: profiles } = playerIds.length
+    ? await admin.from("profiles").select("id, username").in("id", playerIds)
+    : { data: [] };
+  const names = new Map(
+    (profiles ?? []).map((profile) => [profile.id as string, profile.username as string | null])
+  );
+
+  const games: LiveGame[] = watchable.map((match) => ({
+    code: match.code,
+    playerNames: [names.get(match.player1_id) ?? null, names.get(match.player2_id) ?? null],
+    bestOf: match.best_of ?? 1,
+    gamesPlayed: Array.isArray(match.game_results) ? match.game_results.length : 0,
+    createdAt: match.created_at,
+  }));
+
+  return NextResponse.json({ games });
+}
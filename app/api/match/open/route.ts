@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/src/lib/supabaseServer";
+import { createSupabaseAdminClient } from "@/src/lib/supabaseAdmin";
+import type { OpenTable } from "@/src/types/match";
+
+const MAX_OPEN_TABLES = 30;
+
+// Tables nobody has joined within a day are treated as abandoned and drop off the list.
+const OPEN_TABLE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/** Public matches still waiting for a second player, newest first, excluding the caller's own. */
+export async function GET() {
+  const supabase = await createSupabaseServerClient({ allowCookieWrite: true });
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+
+  if (userError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Host names live in profiles, which players can't read for each other.
+  const admin = createSupabaseAdminClient();
+  const { data: matches, error } = await admin
+    .from("matches")
+    .select("code, player1_id, best_of, spectators_allowed, created_at")
+    .eq("is_public", true)
+    .is("player2_id", null)
+    .neq("player1_id", user.id)
+    .gte("created_at", new Date(Date.now() - OPEN_TABLE_MAX_AGE_MS).toISOString())
+    .order("created_at", { ascending: false })
+    .limit(MAX_OPEN_TABLES);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const hostIds = Array.from(new Set((matches ?? []).map((match) => match.player1_id as string)));
+  const { data: profiles } = hostIds.length
+    ? await admin.from("profiles").select("id, username").in("id", hostIds)
+    : { data: [] };
+  const names = new Map(
+    (profiles ?? []).map((profile) => [profile.id as string, profile.username as string | null])
+  );
+
+  const tables: OpenTable[] = (matches ?? []).map((match) => ({
+    code: match.code,
+    hostName: names.get(match.player1_id) ?? null,
+    bestOf: match.best_of ?? 1,
+    spectatorsAllowed: match.spectators_allowed,
+    createdAt: match.created_at,
+  }));
+
+  return NextResponse.json({ tables });
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { createSupabaseServerClient } from "@/src/lib/supabaseServer";
+import { createSupabaseAdminClient } from "@/src/lib/supabaseAdmin";
+import { loadMatchDeck } from "@/src/lib/matchDecks";
+import { enqueuePlayer, leaveQueue, readQueueStatus } from "@/src/lib/matchQueue";
+
+async function requireUser() {
+  const supabase = await createSupabaseServerClient({ allowCookieWrite: true });
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+  return { supabase, user: error ? null : user };
+}
+
+/** Joins the quick-match queue and tries to pair straight away. */
+export async function POST(request: Request) {
+  const { supabase, user } = await requireUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = (await request.json().catch(() => ({}))) as { deckId?: string; bestOf?: number };
+
+  // Checked with the player's own client so only decks they can read and play get queued.
+  const deckResult = await loadMatchDeck(supabase, body.deckId);
+  if ("error" in deckResult) {
+    return NextResponse.json({ error: deckResult.error }, { status: deckResult.status });
+  }
+
+  const admin = createSupabaseAdminClient();
+  const queued = await enqueuePlayer(admin, user.id, deckResult.deck.id, body.bestOf ?? 1);
+  if (queued) {
+    return NextResponse.json({ error: queued.error }, { status: 500 });
+  }
+
+  const status = await readQueueStatus(admin, user.id);
+  if ("error" in status) {
+    return NextResponse.json({ error: status.error }, { status: 500 });
+  }
+  return NextResponse.json(status);
+}
+
+/** Polled while waiting: pairs the player if possible and reports matches and timeouts. */
+export async function GET() {
+  const { user } = await requireUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const status = await readQueueStatus(createSupabaseAdminClient(), user.id);
+  if ("error" in status) {
+    return NextResponse.json({ error: status.error }, { status: 500 });
+  }
+  return NextResponse.json(status);
+}
+
+export async function DELETE() {
+  const { user } = await requireUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const status = await leaveQueue(createSupabaseAdminClient(), user.id);
+  if ("error" in status) {
+    return NextResponse.json({ error: status.error }, { status: 500 });
+  }
+  return NextResponse.json(status);
+}
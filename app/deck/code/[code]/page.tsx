@@ -0,0 +1,106 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { resolveDeckCode } from "@/src/lib/deckCodes";
+import { validateDeckRules } from "@/src/lib/decks";
+import { searchRiftcodexCards } from "@/src/lib/riftcodex";
+import type { DeckSection } from "@/src/types/deck";
+
+interface DeckCodePageProps {
+  params?: { code?: string } | Promise<{ code?: string }>;
+}
+
+const SECTIONS: [DeckSection, string][] = [
+  ["legend", "Legend"],
+  ["main", "Main Deck"],
+  ["runes", "Runes"],
+  ["battlefields", "Battlefields"],
+  ["side", "Side Deck"],
+];
+
+export default async function DeckCodePage({ params }: DeckCodePageProps) {
+  const resolvedParams = params instanceof Promise ? await params : params;
+  const code = resolvedParams?.code ? decodeURIComponent(resolvedParams.code) : "";
+
+  if (!code) {
+    notFound();
+  }
+
+  const result = await resolveDeckCode(code, searchRiftcodexCards);
+  const issues = "error" in result ? [] : [...result.unknown, ...result.ambiguous];
+  const cards = "error" in result ? [] : (result.payload.cards ?? []);
+  const validation = validateDeckRules(cards);
+
+  return (
+    <main className="mx-auto flex min-h-screen w-full max-w-3xl flex-col gap-6 px-4 py-12">
+      <header className="flex flex-col gap-3 rounded-2xl border border-white/5 bg-slate-900/60 p-6 shadow-xl backdrop-blur sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <p className="text-sm uppercase tracking-[0.3em] text-cyan-400">Riftbound</p>
+          <h1 className="text-3xl font-semibold">Shared deck</h1>
+          <p className="break-all font-mono text-xs text-slate-400">{code}</p>
+        </div>
+        {!("error" in result) && (
+          <Link
+            href={`/decks?code=${encodeURIComponent(code)}`}
+            className="rounded-xl border border-white/10 px-4 py-2 text-sm text-white hover:border-cyan-400"
+          >
+            Open in Deck Builder
+          </Link>
+        )}
+      </header>
+
+      {"error" in result ? (
+        <p className="rounded-2xl border border-rose-400/40 bg-rose-500/10 p-6 text-sm text-rose-200">
+          {result.error}
+        </p>
+      ) : (
+        <>
+          {validation.errors.length > 0 && (
+            <ul className="list-disc space-y-1 rounded-2xl border border-amber-400/40 bg-amber-500/10 p-6 pl-10 text-sm text-amber-200">
+              {validation.errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          {issues.length > 0 && (
+            <div className="rounded-2xl border border-rose-400/40 bg-rose-500/10 p-6 text-sm text-rose-200">
+              <p className="font-semibold">Cards that could not be found</p>
+              <ul className="mt-2 space-y-1">
+                {issues.map((issue) => (
+                  <li key={issue.lineNumber}>{issue.text}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {SECTIONS.map(([section, label]) => {
+            const entries = cards.filter((card) => card.section === section);
+            if (entries.length === 0) return null;
+            const total = entries.reduce((sum, card) => sum + card.quantity, 0);
+            return (
+              <section
+                key={section}
+                className="rounded-2xl border border-white/5 bg-slate-900/70 p-6 backdrop-blur"
+              >
+                <div className="flex items-center justify-between">
+                  <h2 className="text-lg font-semibold">{label}</h2>
+                  <span className="text-sm text-slate-400">{total}</span>
+                </div>
+                <ul className="mt-3 space-y-1 text-sm text-slate-200">
+                  {entries.map((card) => (
+                    <li key={card.cardId} className="flex justify-between gap-3">
+                      <span>
+                        <span className="text-slate-400">{card.quantity}×</span> {card.cardName}
+                      </span>
+                      <span className="font-mono text-xs text-slate-500">{card.cardPublicCode}</span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            );
+          })}
+        </>
+      )}
+    </main>
+  );
+}
@@ -1,10 +1,15 @@
 import { redirect } from "next/navigation";
 import { createSupabaseServerClient } from "@/src/lib/supabaseServer";
 import DeckBuilderClient from "@/src/components/decks/DeckBuilderClient";
-import { mapDeckRow } from "@/src/lib/decks";
+import { DECK_SELECT, mapDeckRow } from "@/src/lib/decks";
 import type { DeckSummary } from "@/src/types/deck";
 
-export default async function DecksPage() {
+interface DecksPageProps {
+  searchParams?: { code?: string } | Promise<{ code?: string }>;
+}
+
+export default async function DecksPage({ searchParams }: DecksPageProps) {
+  const resolvedSearchParams = searchParams instanceof Promise ? await searchParams : searchParams;
   const supabase = await createSupabaseServerClient();
   const {
     data: { user },
@@ -19,9 +24,7 @@ export default async function DecksPage() {
   try {
     const { data, error } = await supabase
       .from("decks")
-      .select(
-        "id, owner_id, name, description, format, cover_card_id, is_public, created_at, updated_at, deck_cards(card_id, card_name, card_public_code, quantity, section, card_domains, card_supertype, card_type)"
-      )
+      .select(DECK_SELECT)
       .eq("owner_id", user.id)
       .order("updated_at", { ascending: false });
 
@@ -42,5 +45,5 @@ export default async function DecksPage() {
     console.warn("[DecksPage] Unable to load decks", formattedError);
   }
 
-  return <DeckBuilderClient initialDecks={decks} />;
+  return <DeckBuilderClient initialDecks={decks} initialImportCode={resolvedSearchParams?.code} />;
 }
@@ -1,7 +1,10 @@
 import { notFound, redirect } from "next/navigation";
 import { createSupabaseServerClient } from "@/src/lib/supabaseServer";
+import { createSupabaseAdminClient } from "@/src/lib/supabaseAdmin";
+import { loadMatchState } from "@/src/lib/matchStore";
+import { projectMatchState, resolveViewer } from "@/src/lib/matchView";
 import MatchRoom from "@/src/components/match/MatchRoom";
-import type { MatchEventRecord, MatchState, MatchSummary } from "@/src/types/match";
+import type { MatchEventRecord, MatchMessageRecord, MatchSummary } from "@/src/types/match";
 
 interface MatchPageProps {
   params?: { code?: string } | Promise<{ code?: string }>;
@@ -27,7 +30,7 @@ export default async function MatchPage({ params }: MatchPageProps) {
 
   const { data: match, error: matchError } = await supabase
     .from("matches")
-    .select("id, code, player1_id, player2_id, spectators_allowed, created_at")
+    .select("id, code, player1_id, player2_id, spectators_allowed, kicked_spectator_ids, created_at")
     .eq("code", code)
     .single();
 
@@ -35,34 +38,48 @@ export default async function MatchPage({ params }: MatchPageProps) {
     notFound();
   }
 
-  const isPlayer = match.player1_id === user.id || match.player2_id === user.id;
-  if (!isPlayer && !match.spectators_allowed) {
+  const viewer = resolveViewer(match, user.id);
+  if (!viewer) {
     redirect("/lobby");
   }
 
-  const { data: stateRow } = await supabase
-    .from("match_state")
-    .select("state")
-    .eq("match_id", match.id)
-    .single();
-
-  if (!stateRow) {
+  // Raw state holds both hands and deck orders, so it is only read with the service role.
+  const admin = createSupabaseAdminClient();
+  const loaded = await loadMatchState(admin, match.id);
+  if ("error" in loaded) {
     notFound();
   }
 
   const { data: events } = await supabase
     .from("match_events")
-    .select("id, match_id, player_id, type, payload, created_at")
+    .select("id, match_id, player_id, type, payload, state_version, created_at")
     .eq("match_id", match.id)
     .order("created_at", { ascending: false })
     .limit(50);
 
+  // RLS only returns the chat channels this viewer may read.
+  const { data: messages } = await supabase
+    .from("match_messages")
+    .select("id, match_id, sender_id, sender_name, channel, body, canned, created_at")
+    .eq("match_id", match.id)
+    .order("id", { ascending: false })
+    .limit(100);
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("username")
+    .eq("id", user.id)
+    .maybeSingle();
+
   return (
     <MatchRoom
       match={match as MatchSummary}
-      initialState={stateRow.state as MatchState}
+      initialState={projectMatchState(loaded.state, viewer)}
+      initialVersion={loaded.version}
       initialEvents={(events ?? []) as MatchEventRecord[]}
+      initialMessages={((messages ?? []) as MatchMessageRecord[]).reverse()}
       currentUserId={user.id}
+      currentUserName={profile?.username ?? null}
     />
   );
 }
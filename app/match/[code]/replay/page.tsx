@@ -0,0 +1,45 @@
+import { notFound, redirect } from "next/navigation";
+import { createSupabaseServerClient } from "@/src/lib/supabaseServer";
+import { resolveViewer } from "@/src/lib/matchView";
+import ReplayViewer from "@/src/components/match/ReplayViewer";
+import type { MatchSummary } from "@/src/types/match";
+
+interface ReplayPageProps {
+  params?: { code?: string } | Promise<{ code?: string }>;
+}
+
+export default async function ReplayPage({ params }: ReplayPageProps) {
+  const resolvedParams = params instanceof Promise ? await params : params;
+  const rawCode = resolvedParams?.code;
+
+  if (!rawCode) {
+    notFound();
+  }
+
+  const code = rawCode.toUpperCase();
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/auth");
+  }
+
+  const { data: match, error: matchError } = await supabase
+    .from("matches")
+    .select("id, code, player1_id, player2_id, spectators_allowed, kicked_spectator_ids, created_at")
+    .eq("code", code)
+    .single();
+
+  if (matchError || !match) {
+    notFound();
+  }
+
+  const viewer = resolveViewer(match, user.id);
+  if (!viewer) {
+    redirect("/lobby");
+  }
+
+  return <ReplayViewer match={match as MatchSummary} viewerSlot={viewer === "spectator" ? null : viewer} />;
+}
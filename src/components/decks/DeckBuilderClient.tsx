@@ -4,11 +4,15 @@ import { useEffect, useMemo, useRef, useState, type KeyboardEvent as ReactKeyboa
 import Image from "next/image";
 import { useRouter } from "next/navigation";
 import { SECTION_TARGETS, validateDeckRules } from "@/src/lib/decks";
-import type { DeckSummary, DeckCardEntry, DeckSection } from "@/src/types/deck";
+import { formatDecklistText, type DecklistIssue } from "@/src/lib/decklistText";
+import { encodeDeckCode } from "@/src/lib/deckCodes";
+import { diffDeckRevisions } from "@/src/lib/deckRevisions";
+import type { DeckSummary, DeckCardEntry, DeckRevision, DeckSection } from "@/src/types/deck";
 import type { RiftCard, RiftCardListResponse } from "@/src/types/card";
 
 interface DeckBuilderClientProps {
   initialDecks: DeckSummary[];
+  initialImportCode?: string;
 }
 
 type WorkingDeck = {
@@ -94,6 +98,13 @@ const SECTION_GRID_COLUMNS: Record<DeckSection, string> = {
 
 const LIBRARY_PAGE_SIZE = 60;
 
+type TextPanel = "import" | "export" | "code";
+
+interface ImportReport {
+  unknown: DecklistIssue[];
+  ambiguous: DecklistIssue[];
+}
+
 const emptyDeck = (): WorkingDeck => ({
   name: "Untitled Prototype",
   description: "",
@@ -198,7 +209,10 @@ function domainsMatchLegend(cardDomains: string[], legendDomains: string[]) {
   return cardDomains.every((domain) => legendDomains.includes(domain));
 }
 
-export default function DeckBuilderClient({ initialDecks }: DeckBuilderClientProps) {
+export default function DeckBuilderClient({
+  initialDecks,
+  initialImportCode,
+}: DeckBuilderClientProps) {
   const router = useRouter();
   const [decks, setDecks] = useState<DeckSummary[]>(initialDecks);
   const [selectedDeckId, setSelectedDeckId] = useState<string | "new">(
@@ -219,6 +233,19 @@ export default function DeckBuilderClient({ initialDecks }: DeckBuilderClientPro
   const [expandedCard, setExpandedCard] = useState<RiftCard | null>(null);
   const [activeLibraryTab, setActiveLibraryTab] = useState<LibraryTab>("legend");
   const [activeStudioTab, setActiveStudioTab] = useState<StudioTab>("legend");
+  // A shared link (/decks?code=...) opens straight into the code import.
+  const [textPanel, setTextPanel] = useState<TextPanel | null>(initialImportCode ? "code" : null);
+  const [importText, setImportText] = useState("");
+  const [importCode, setImportCode] = useState(initialImportCode ?? "");
+  const [codeCopied, setCodeCopied] = useState(false);
+  const [saveNote, setSaveNote] = useState("");
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [revisions, setRevisions] = useState<DeckRevision[]>([]);
+  const [compareFromId, setCompareFromId] = useState<string | null>(null);
+  const [compareToId, setCompareToId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
   const libraryScrollRef = useRef<HTMLDivElement | null>(null);
   const sentinelRef = useRef<HTMLDivElement | null>(null);
   const hasLoadedLibraryPages = useRef(false);
@@ -711,6 +738,7 @@ export default function DeckBuilderClient({ initialDecks }: DeckBuilderClientPro
       format: workingDeck.format,
       isPublic: workingDeck.isPublic,
       coverCardId: workingDeck.coverCardId,
+      note: saveNote,
       cards: workingDeck.cards.map((card) => ({
         cardId: card.cardId,
         cardName: card.cardName,
@@ -748,11 +776,109 @@ export default function DeckBuilderClient({ initialDecks }: DeckBuilderClientPro
     setWorkingDeck(toWorkingDeck(savedDeck));
     setSelectedDeckId(savedDeck.id);
     setSaveStatus("Saved");
+    setSaveNote("");
     setDirty(false);
     router.refresh();
     setTimeout(() => setSaveStatus(null), 2000);
   }
 
+  async function importDecklist(source: { text: string } | { code: string }) {
+    setImporting(true);
+    setError(null);
+    let response: Response;
+    let data;
+    try {
+      response = await fetch("/api/decks/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...source, name: workingDeck.name }),
+      });
+      data = await response.json().catch(() => ({}));
+    } catch (importError) {
+      console.error(importError);
+      setError("Unable to import decklist");
+      return;
+    } finally {
+      setImporting(false);
+    }
+
+    if (!response.ok) {
+      setError(data.error ?? "Unable to import decklist");
+      return;
+    }
+
+    // Imported cards replace the current list; art and details load like any saved deck's.
+    const cards = (data.deck?.cards ?? []) as DeckCardEntry[];
+    setWorkingDeck((prev) => ({ ...prev, cards }));
+    setDirty(true);
+    const report: ImportReport = { unknown: data.unknown ?? [], ambiguous: data.ambiguous ?? [] };
+    setImportReport(report);
+    if (report.unknown.length === 0 && report.ambiguous.length === 0) {
+      setTextPanel(null);
+      setImportText("");
+      setImportCode("");
+    }
+  }
+
+  async function openHistory() {
+    if (!workingDeck.id) return;
+    setError(null);
+    setHistoryOpen(true);
+    setRevisions([]);
+    const response = await fetch(`/api/decks/${workingDeck.id}/revisions`);
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      setError(data.error ?? "Unable to load deck history");
+      setHistoryOpen(false);
+      return;
+    }
+
+    const loaded = (data.revisions ?? []) as DeckRevision[];
+    setRevisions(loaded);
+    setCompareToId(loaded[0]?.id ?? null);
+    setCompareFromId(loaded[1]?.id ?? loaded[0]?.id ?? null);
+  }
+
+  async function restoreRevision(revision: DeckRevision) {
+    if (!workingDeck.id) return;
+    if (dirty && !window.confirm("Restoring replaces your unsaved changes. Continue?")) return;
+    setRestoringId(revision.id);
+    setError(null);
+    const response = await fetch(
+      `/api/decks/${workingDeck.id}/revisions/${revision.id}/restore`,
+      { method: "POST" }
+    );
+    const data = await response.json().catch(() => ({}));
+    setRestoringId(null);
+
+    if (!response.ok) {
+      setError(data.error ?? "Unable to restore revision");
+      return;
+    }
+
+    const restoredDeck = data.deck as DeckSummary;
+    setDecks((prev) => {
+      const otherDecks = prev.filter((deck) => deck.id !== restoredDeck.id);
+      return [restoredDeck, ...otherDecks];
+    });
+    setWorkingDeck(toWorkingDeck(restoredDeck));
+    setDirty(false);
+    setHistoryOpen(false);
+    router.refresh();
+  }
+
+  function copyDeckCode() {
+    const result = encodeDeckCode(workingDeck.cards);
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+    navigator.clipboard?.writeText(result.code);
+    setCodeCopied(true);
+    setTimeout(() => setCodeCopied(false), 2000);
+  }
+
   type ThumbOptions = {
     keyOverride?: string;
     hideQuantityBadge?: boolean;
@@ -1114,6 +1240,15 @@ export default function DeckBuilderClient({ initialDecks }: DeckBuilderClientPro
               placeholder="Origins"
             />
           </label>
+          <label className="flex flex-1 flex-col">
+            <span className="text-[0.6rem] uppercase tracking-[0.3em] text-slate-400">Save note</span>
+            <input
+              value={saveNote}
+              onChange={(event) => setSaveNote(event.target.value)}
+              className="mt-1 rounded-xl border border-white/10 bg-[#05070d] px-3 py-2 text-sm focus:border-[#f6d38e] focus:outline-none"
+              placeholder="What changed?"
+            />
+          </label>
           <label className="flex items-center gap-2 rounded-xl border border-white/10 px-3 py-2">
             <input
               type="checkbox"
@@ -1135,6 +1270,45 @@ export default function DeckBuilderClient({ initialDecks }: DeckBuilderClientPro
           >
             {saveStatus ?? (workingDeck.id ? "Save changes" : "Save deck")}
           </button>
+          <button
+            onClick={() => {
+              setImportReport(null);
+              setTextPanel("import");
+            }}
+            className="rounded-xl border border-white/10 px-4 py-2 text-xs uppercase tracking-[0.3em] text-slate-300 transition hover:border-[#7ce7f4]/60"
+          >
+            Import text
+          </button>
+          <button
+            onClick={() => setTextPanel("export")}
+            disabled={workingDeck.cards.length === 0}
+            className="rounded-xl border border-white/10 px-4 py-2 text-xs uppercase tracking-[0.3em] text-slate-300 transition hover:border-[#7ce7f4]/60 disabled:cursor-not-allowed disabled:text-slate-500"
+          >
+            Export text
+          </button>
+          <button
+            onClick={() => {
+              setImportReport(null);
+              setTextPanel("code");
+            }}
+            className="rounded-xl border border-white/10 px-4 py-2 text-xs uppercase tracking-[0.3em] text-slate-300 transition hover:border-[#7ce7f4]/60"
+          >
+            Import code
+          </button>
+          <button
+            onClick={copyDeckCode}
+            disabled={workingDeck.cards.length === 0}
+            className="rounded-xl border border-white/10 px-4 py-2 text-xs uppercase tracking-[0.3em] text-slate-300 transition hover:border-[#7ce7f4]/60 disabled:cursor-not-allowed disabled:text-slate-500"
+          >
+            {codeCopied ? "Copied" : "Copy code"}
+          </button>
+          <button
+            onClick={openHistory}
+            disabled={!workingDeck.id}
+            className="rounded-xl border border-white/10 px-4 py-2 text-xs uppercase tracking-[0.3em] text-slate-300 transition hover:border-[#7ce7f4]/60 disabled:cursor-not-allowed disabled:text-slate-500"
+          >
+            History
+          </button>
         </div>
 
         <textarea
@@ -1511,6 +1685,209 @@ export default function DeckBuilderClient({ initialDecks }: DeckBuilderClientPro
           </div>
         </section>
       </main>
+      {textPanel && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-6"
+          onClick={() => setTextPanel(null)}
+        >
+          <div
+            className="relative w-full max-w-xl space-y-4 rounded-[32px] border border-white/10 bg-[#05070d] p-6"
+            onClick={(event) => event.stopPropagation()}
+          >
+            <button
+              type="button"
+              onClick={() => setTextPanel(null)}
+              className="absolute right-6 top-6 rounded-full border border-white/30 px-3 py-1 text-sm text-white"
+            >
+              Close
+            </button>
+            <p className="text-[0.65rem] uppercase tracking-[0.4em] text-[#7ce7f4]">
+              {textPanel === "export" ? "Export decklist" : "Import decklist"}
+            </p>
+            {textPanel === "code" && (
+              <>
+                <p className="text-sm text-slate-300">
+                  Paste a deck code. This replaces the cards in the current deck.
+                </p>
+                <input
+                  value={importCode}
+                  onChange={(event) => setImportCode(event.target.value)}
+                  className="w-full rounded-2xl border border-white/10 bg-black/40 px-4 py-3 font-mono text-sm text-slate-200 focus:border-[#f6d38e] focus:outline-none"
+                />
+              </>
+            )}
+            {textPanel === "import" && (
+              <>
+                <p className="text-sm text-slate-300">
+                  One card per line (&quot;3 Jinx, Rebel&quot; or a card code), with Legend, Runes,
+                  Battlefields and Sideboard headers. This replaces the cards in the current deck.
+                </p>
+                <textarea
+                  value={importText}
+                  onChange={(event) => setImportText(event.target.value)}
+                  rows={14}
+                  className="w-full rounded-2xl border border-white/10 bg-black/40 px-4 py-3 font-mono text-sm text-slate-200 focus:border-[#f6d38e] focus:outline-none"
+                />
+              </>
+            )}
+            {textPanel === "export" ? (
+              <>
+                <textarea
+                  readOnly
+                  value={formatDecklistText(workingDeck)}
+                  rows={14}
+                  className="w-full rounded-2xl border border-white/10 bg-black/40 px-4 py-3 font-mono text-sm text-slate-200 focus:outline-none"
+                />
+                <button
+                  onClick={() => navigator.clipboard?.writeText(formatDecklistText(workingDeck))}
+                  className="rounded-xl border border-white/10 px-4 py-2 text-xs uppercase tracking-[0.3em] text-slate-300 transition hover:border-[#7ce7f4]/60"
+                >
+                  Copy to clipboard
+                </button>
+              </>
+            ) : (
+              <>
+                {importReport && (importReport.unknown.length > 0 || importReport.ambiguous.length > 0) && (
+                  <div className="space-y-2 rounded-2xl border border-amber-400/30 bg-amber-500/10 p-3 text-sm text-amber-100">
+                    {importReport.unknown.map((issue) => (
+                      <p key={`unknown-${issue.lineNumber}`}>
+                        Line {issue.lineNumber}: no card matches &quot;{issue.text}&quot;
+                      </p>
+                    ))}
+                    {importReport.ambiguous.map((issue) => (
+                      <p key={`ambiguous-${issue.lineNumber}`}>
+                        Line {issue.lineNumber}: &quot;{issue.text}&quot; could be {issue.candidates?.join(", ")}
+                      </p>
+                    ))}
+                  </div>
+                )}
+                <button
+                  onClick={() =>
+                    importDecklist(textPanel === "code" ? { code: importCode } : { text: importText })
+                  }
+                  disabled={importing || !(textPanel === "code" ? importCode : importText).trim()}
+                  className="rounded-xl border border-[#9ce39a]/50 bg-[#9ce39a]/10 px-4 py-2 text-xs font-semibold uppercase tracking-[0.3em] text-[#c9ffb8] transition hover:bg-[#9ce39a]/20 disabled:cursor-not-allowed disabled:border-white/10 disabled:bg-transparent disabled:text-slate-500"
+                >
+                  {importing ? "Importing..." : "Import"}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {historyOpen && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-6"
+          onClick={() => setHistoryOpen(false)}
+        >
+          <div
+            className="relative max-h-full w-full max-w-2xl space-y-4 overflow-y-auto rounded-[32px] border border-white/10 bg-[#05070d] p-6"
+            onClick={(event) => event.stopPropagation()}
+          >
+            <button
+              type="button"
+              onClick={() => setHistoryOpen(false)}
+              className="absolute right-6 top-6 rounded-full border border-white/30 px-3 py-1 text-sm text-white"
+            >
+              Close
+            </button>
+            <p className="text-[0.65rem] uppercase tracking-[0.4em] text-[#7ce7f4]">Deck history</p>
+            {revisions.length === 0 ? (
+              <p className="text-sm text-slate-400">Loading revisions...</p>
+            ) : (
+              (() => {
+                const compareFrom = revisions.find((revision) => revision.id === compareFromId);
+                const compareTo = revisions.find((revision) => revision.id === compareToId);
+                const diff =
+                  compareFrom && compareTo ? diffDeckRevisions(compareFrom.cards, compareTo.cards) : [];
+                const revisionSelect = (value: string | null, onChange: (id: string) => void) => (
+                  <select
+                    value={value ?? ""}
+                    onChange={(event) => onChange(event.target.value)}
+                    className="rounded-xl border border-white/10 bg-[#05070d] px-3 py-2 text-sm focus:border-[#f6d38e] focus:outline-none"
+                  >
+                    {revisions.map((revision) => (
+                      <option key={revision.id} value={revision.id}>
+                        Revision {revision.revision}
+                      </option>
+                    ))}
+                  </select>
+                );
+
+                return (
+                  <>
+                    <div className="flex flex-wrap items-center gap-2 text-sm text-slate-300">
+                      <span>Compare</span>
+                      {revisionSelect(compareFromId, setCompareFromId)}
+                      <span>with</span>
+                      {revisionSelect(compareToId, setCompareToId)}
+                    </div>
+                    {diff.length === 0 ? (
+                      <p className="rounded-2xl border border-dashed border-white/10 px-3 py-4 text-center text-xs text-slate-500">
+                        No card changes between these revisions.
+                      </p>
+                    ) : (
+                      <div className="space-y-3">
+                        {diff.map((sectionDiff) => (
+                          <div
+                            key={sectionDiff.section}
+                            className="rounded-2xl border border-white/10 bg-black/30 p-3 text-sm"
+                          >
+                            <p className="text-[0.6rem] uppercase tracking-[0.3em] text-slate-400">
+                              {SECTION_LABELS[sectionDiff.section]}
+                            </p>
+                            {sectionDiff.added.map((entry) => (
+                              <p key={`added-${entry.cardId}`} className="text-[#c9ffb8]">
+                                +{entry.quantity} {entry.cardName}
+                              </p>
+                            ))}
+                            {sectionDiff.removed.map((entry) => (
+                              <p key={`removed-${entry.cardId}`} className="text-[#ffb590]">
+                                −{entry.quantity} {entry.cardName}
+                              </p>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <ul className="space-y-2">
+                      {revisions.map((revision, index) => (
+                        <li
+                          key={revision.id}
+                          className="flex items-center justify-between gap-3 rounded-2xl border border-white/10 px-3 py-2 text-sm"
+                        >
+                          <div>
+                            <p className="font-semibold text-white">
+                              Revision {revision.revision}
+                              {revision.note && (
+                                <span className="font-normal text-slate-300"> · {revision.note}</span>
+                              )}
+                            </p>
+                            <p className="text-xs text-slate-500">
+                              {new Date(revision.createdAt).toLocaleString()}
+                            </p>
+                          </div>
+                          {index > 0 && (
+                            <button
+                              onClick={() => restoreRevision(revision)}
+                              disabled={restoringId !== null}
+                              className="rounded-xl border border-white/10 px-3 py-1 text-xs uppercase tracking-[0.3em] text-slate-300 transition hover:border-[#7ce7f4]/60 disabled:cursor-not-allowed disabled:text-slate-500"
+                            >
+                              {restoringId === revision.id ? "Restoring..." : "Restore"}
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                );
+              })()
+            )}
+          </div>
+        </div>
+      )}
+
       {expandedCard && (
         <div
           className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-6"
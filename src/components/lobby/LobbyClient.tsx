@@ -1,12 +1,32 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/src/lib/supabaseClient";
-import type { MatchSummary } from "@/src/types/match";
+import type { LiveGame, MatchSummary, OpenTable, QueueStatus } from "@/src/types/match";
+
+const QUEUE_POLL_MS = 3000;
+
+async function fetchOpenTables() {
+  const response = await fetch("/api/match/open", { cache: "no-store" });
+  const payload = await response.json().catch(() => ({}));
+  return response.ok && Array.isArray(payload.tables) ? (payload.tables as OpenTable[]) : null;
+}
+
+async function fetchLiveGames() {
+  const response = await fetch("/api/match/live", { cache: "no-store" });
+  const payload = await response.json().catch(() => ({}));
+  return response.ok && Array.isArray(payload.games) ? (payload.games as LiveGame[]) : null;
+}
+
+interface LobbyDeckOption {
+  id: string;
+  name: string;
+}
 
 interface LobbyClientProps {
   initialMatches: MatchSummary[];
+  decks: LobbyDeckOption[];
   userId: string;
 }
 
@@ -16,9 +36,19 @@ type PlayerLayout = {
   right: string[];
 };
 
-export default function LobbyClient({ initialMatches, userId }: LobbyClientProps) {
+export default function LobbyClient({ initialMatches, decks, userId }: LobbyClientProps) {
   const router = useRouter();
   const [matches, setMatches] = useState(initialMatches);
+  const [deckId, setDeckId] = useState(decks[0]?.id ?? "");
+  const [victoryTarget, setVictoryTarget] = useState(8);
+  const [bestOf, setBestOf] = useState<1 | 3>(1);
+  const [isPublic, setIsPublic] = useState(false);
+  const [spectatorsAllowed, setSpectatorsAllowed] = useState(true);
+  const [openTables, setOpenTables] = useState<OpenTable[]>([]);
+  const [liveGames, setLiveGames] = useState<LiveGame[]>([]);
+  const [queue, setQueue] = useState<QueueStatus>({ status: "idle" });
+  const [queueBusy, setQueueBusy] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
   const [codeInput, setCodeInput] = useState("");
   const [creating, setCreating] = useState(false);
   const [joining, setJoining] = useState(false);
@@ -32,6 +62,85 @@ export default function LobbyClient({ initialMatches, userId }: LobbyClientProps
     [matches, userId]
   );
 
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadListings() {
+      const [tables, games] = await Promise.all([fetchOpenTables(), fetchLiveGames()]);
+      if (cancelled) return;
+      if (tables) setOpenTables(tables);
+      if (games) setLiveGames(games);
+    }
+
+    loadListings();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const applyQueueStatus = useCallback(
+    (next: QueueStatus) => {
+      setQueue(next);
+      setNow(Date.now());
+      if (next.status === "matched") {
+        router.push(`/match/${next.code}`);
+      }
+    },
+    [router]
+  );
+
+  // The server pairs players on each poll, so waiting players keep asking until matched or lapsed.
+  useEffect(() => {
+    if (queue.status !== "waiting") return;
+    const timer = window.setInterval(async () => {
+      const response = await fetch("/api/match/queue", { cache: "no-store" });
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(payload.error ?? "Quick match failed");
+        setQueue({ status: "idle" });
+        return;
+      }
+      applyQueueStatus(payload as QueueStatus);
+    }, QUEUE_POLL_MS);
+    return () => window.clearInterval(timer);
+  }, [queue.status, applyQueueStatus]);
+
+  async function handleQuickMatch() {
+    if (!deckId) {
+      setError("Pick a deck first");
+      return;
+    }
+
+    setQueueBusy(true);
+    setError(null);
+    const response = await fetch("/api/match/queue", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ deckId, bestOf }),
+    });
+    const payload = await response.json().catch(() => ({}));
+    setQueueBusy(false);
+
+    if (!response.ok) {
+      setError(payload.error ?? "Could not join the queue");
+      return;
+    }
+    applyQueueStatus(payload as QueueStatus);
+  }
+
+  async function handleLeaveQueue() {
+    setQueueBusy(true);
+    const response = await fetch("/api/match/queue", { method: "DELETE" });
+    const payload = await response.json().catch(() => ({}));
+    setQueueBusy(false);
+
+    if (!response.ok) {
+      setError(payload.error ?? "Could not leave the queue");
+      return;
+    }
+    applyQueueStatus(payload as QueueStatus);
+  }
+
   async function refreshMatches() {
     const { data, error: refreshError } = await supabase
       .from("matches")
@@ -42,12 +151,24 @@ export default function LobbyClient({ initialMatches, userId }: LobbyClientProps
     if (!refreshError && data) {
       setMatches(data as MatchSummary[]);
     }
+    const [tables, games] = await Promise.all([fetchOpenTables(), fetchLiveGames()]);
+    if (tables) setOpenTables(tables);
+    if (games) setLiveGames(games);
   }
 
   async function handleCreate() {
+    if (!deckId) {
+      setError("Pick a deck first");
+      return;
+    }
+
     setCreating(true);
     setError(null);
-    const response = await fetch("/api/match/create", { method: "POST" });
+    const response = await fetch("/api/match/create", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ deckId, victoryTarget, bestOf, isPublic, spectatorsAllowed }),
+    });
     const payload = await response.json().catch(() => ({}));
 
     if (!response.ok) {
@@ -66,6 +187,14 @@ export default function LobbyClient({ initialMatches, userId }: LobbyClientProps
       setError("Enter a match code");
       return;
     }
+    await joinMatch(code);
+  }
+
+  async function joinMatch(code: string) {
+    if (!deckId) {
+      setError("Pick a deck first");
+      return;
+    }
 
     setJoining(true);
     setError(null);
@@ -73,7 +202,7 @@ export default function LobbyClient({ initialMatches, userId }: LobbyClientProps
     const response = await fetch("/api/match/join", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ code }),
+      body: JSON.stringify({ code, deckId }),
     });
     const payload = await response.json().catch(() => ({}));
 
@@ -176,15 +305,76 @@ export default function LobbyClient({ initialMatches, userId }: LobbyClientProps
         </div>
       </header>
 
+      <section className="flex flex-col gap-3 rounded-2xl border border-white/5 bg-slate-900/70 p-6 backdrop-blur sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">Your deck</h2>
+          <p className="text-sm text-slate-300">Used when you host or join a match.</p>
+        </div>
+        {decks.length === 0 ? (
+          <button
+            onClick={() => router.push("/decks")}
+            className="rounded-xl border border-amber-400/40 bg-amber-500/10 px-4 py-2 text-sm text-amber-200 hover:border-amber-300"
+          >
+            Build a deck to play
+          </button>
+        ) : (
+          <select
+            value={deckId}
+            onChange={(event) => setDeckId(event.target.value)}
+            className="rounded-lg border border-white/10 bg-slate-950/40 px-3 py-2 text-sm focus:border-cyan-400 focus:outline-none sm:w-72"
+          >
+            {decks.map((deck) => (
+              <option key={deck.id} value={deck.id}>
+                {deck.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </section>
+
       <section className="grid gap-6 lg:grid-cols-3">
         <div className="space-y-4 rounded-2xl border border-white/5 bg-slate-900/70 p-6 backdrop-blur">
           <h2 className="text-lg font-semibold">Host a match</h2>
           <p className="text-sm text-slate-300">
-            Creates a clean room with placeholder decks.
+            Creates a clean room and shuffles your selected deck.
           </p>
+          <label className="flex items-center justify-between gap-3 text-sm text-slate-300">
+            Points to win
+            <input
+              type="number"
+              min={1}
+              max={30}
+              value={victoryTarget}
+              onChange={(event) => setVictoryTarget(Number(event.target.value) || 8)}
+              className="w-20 rounded-lg border border-white/10 bg-slate-950/40 px-3 py-1 text-center focus:border-cyan-400 focus:outline-none"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-3 text-sm text-slate-300">
+            Format
+            <select
+              value={bestOf}
+              onChange={(event) => setBestOf(event.target.value === "3" ? 3 : 1)}
+              className="rounded-lg border border-white/10 bg-slate-950/40 px-3 py-1 focus:border-cyan-400 focus:outline-none"
+            >
+              <option value={1}>Single game</option>
+              <option value={3}>Best of three</option>
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-3 text-sm text-slate-300">
+            List in open tables
+            <input type="checkbox" checked={isPublic} onChange={(event) => setIsPublic(event.target.checked)} />
+          </label>
+          <label className="flex items-center justify-between gap-3 text-sm text-slate-300">
+            Allow spectators
+            <input
+              type="checkbox"
+              checked={spectatorsAllowed}
+              onChange={(event) => setSpectatorsAllowed(event.target.checked)}
+            />
+          </label>
           <button
             onClick={handleCreate}
-            disabled={creating}
+            disabled={creating || !deckId}
             className="w-full rounded-xl bg-cyan-500/80 px-4 py-3 text-base font-semibold text-slate-950 hover:bg-cyan-400 disabled:opacity-60"
           >
             {creating ? "Preparing..." : "Create match"}
@@ -206,7 +396,7 @@ export default function LobbyClient({ initialMatches, userId }: LobbyClientProps
           <div className="flex gap-3">
             <button
               type="submit"
-              disabled={joining}
+              disabled={joining || !deckId}
               className="flex-1 rounded-xl bg-emerald-500/80 px-4 py-3 text-sm font-semibold text-slate-950 hover:bg-emerald-400 disabled:opacity-60"
             >
               {joining ? "Joining..." : "Join as Player"}
@@ -231,6 +421,106 @@ export default function LobbyClient({ initialMatches, userId }: LobbyClientProps
         </div>
       </section>
 
+      <section className="grid gap-6 lg:grid-cols-3">
+        <div className="space-y-4 rounded-2xl border border-white/5 bg-slate-900/70 p-6 backdrop-blur">
+          <h2 className="text-lg font-semibold">Quick match</h2>
+          <p className="text-sm text-slate-300">
+            Get paired with the next player looking for a {bestOf === 3 ? "best-of-three set" : "single game"}.
+          </p>
+          {queue.status === "waiting" ? (
+            <>
+              <p className="text-sm text-cyan-300">
+                Searching… {Math.max(0, Math.round((new Date(queue.expiresAt).getTime() - now) / 1000))}s left
+              </p>
+              <button
+                onClick={handleLeaveQueue}
+                disabled={queueBusy}
+                className="w-full rounded-xl border border-white/10 px-4 py-3 text-sm text-white hover:border-rose-400 disabled:opacity-60"
+              >
+                Cancel
+              </button>
+            </>
+          ) : (
+            <>
+              {queue.status === "expired" && (
+                <p className="text-sm text-amber-200">Nobody turned up in time. Try again?</p>
+              )}
+              <button
+                onClick={handleQuickMatch}
+                disabled={queueBusy || !deckId}
+                className="w-full rounded-xl bg-cyan-500/80 px-4 py-3 text-base font-semibold text-slate-950 hover:bg-cyan-400 disabled:opacity-60"
+              >
+                {queueBusy ? "Joining queue..." : "Find a match"}
+              </button>
+            </>
+          )}
+        </div>
+
+        <div className="rounded-2xl border border-white/5 bg-slate-900/70 p-6 backdrop-blur lg:col-span-2">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold">Open tables</h2>
+            <span className="text-sm text-slate-400">{openTables.length} waiting</span>
+          </div>
+          <div className="mt-4 divide-y divide-white/5">
+            {openTables.length === 0 && (
+              <p className="rounded-xl border border-dashed border-white/10 px-4 py-6 text-center text-sm text-slate-400">
+                No open tables right now. List yours when you host.
+              </p>
+            )}
+            {openTables.map((table) => (
+              <div key={table.code} className="flex items-center justify-between gap-6 py-3">
+                <div>
+                  <p className="font-semibold">{table.hostName ?? "Unknown host"}</p>
+                  <p className="text-sm text-slate-400">
+                    {table.bestOf === 3 ? "Best of three" : "Single game"} ·{" "}
+                    {table.spectatorsAllowed ? "Spectators welcome" : "No spectators"}
+                  </p>
+                </div>
+                <button
+                  onClick={() => joinMatch(table.code)}
+                  disabled={joining || !deckId}
+                  className="rounded-xl bg-emerald-500/80 px-4 py-2 text-sm font-semibold text-slate-950 hover:bg-emerald-400 disabled:opacity-60"
+                >
+                  Join
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </section>
+
+      <section className="rounded-2xl border border-white/5 bg-slate-900/70 p-6 backdrop-blur">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Live games</h2>
+          <span className="text-sm text-slate-400">{liveGames.length} in progress</span>
+        </div>
+        <div className="mt-4 divide-y divide-white/5">
+          {liveGames.length === 0 && (
+            <p className="rounded-xl border border-dashed border-white/10 px-4 py-6 text-center text-sm text-slate-400">
+              No games to watch right now.
+            </p>
+          )}
+          {liveGames.map((game) => (
+            <div key={game.code} className="flex items-center justify-between gap-6 py-3">
+              <div>
+                <p className="font-semibold">
+                  {game.playerNames[0] ?? "Player One"} vs {game.playerNames[1] ?? "Player Two"}
+                </p>
+                <p className="text-sm text-slate-400">
+                  {game.bestOf === 3 ? `Best of three · game ${game.gamesPlayed + 1}` : "Single game"}
+                </p>
+              </div>
+              <button
+                onClick={() => router.push(`/match/${game.code}`)}
+                className="rounded-xl border border-white/10 px-4 py-2 text-sm text-white hover:border-cyan-400"
+              >
+                Watch
+              </button>
+            </div>
+          ))}
+        </div>
+      </section>
+
       <section className="rounded-2xl border border-white/5 bg-slate-950/60 p-6 backdrop-blur">
         <div className="flex items-center justify-between">
           <h2 className="text-xl font-semibold">Your matches</h2>
@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import type { RiftCard } from "@/src/types/card";
+import type { MatchCard } from "@/src/types/match";
+import styles from "./MatchRoom.module.css";
+
+// Catalog entries never change mid-match, so one fetch per card id is enough for the session.
+const catalogCache = new Map<string, RiftCard | null>();
+
+/** Only cards the server sent in full can be previewed; placeholders carry no catalog id. */
+export function canPreviewCard(card: MatchCard) {
+  return !card.hidden && Boolean(card.cardId);
+}
+
+interface CardPreviewProps {
+  card: MatchCard;
+}
+
+export default function CardPreview({ card }: CardPreviewProps) {
+  const cardId = card.cardId ?? "";
+  const [details, setDetails] = useState<RiftCard | null>(() => catalogCache.get(cardId) ?? null);
+  const [loading, setLoading] = useState(() => !catalogCache.has(cardId));
+
+  useEffect(() => {
+    if (catalogCache.has(cardId)) return;
+    let cancelled = false;
+
+    async function loadCard() {
+      const response = await fetch(`/api/cards/${cardId}`);
+      const body = response.ok ? ((await response.json().catch(() => null)) as RiftCard | null) : null;
+      catalogCache.set(cardId, body);
+      if (cancelled) return;
+      setDetails(body);
+      setLoading(false);
+    }
+
+    loadCard();
+    return () => {
+      cancelled = true;
+    };
+  }, [cardId]);
+
+  const image = details?.media?.image_url ?? card.img;
+  const attributes = details?.attributes;
+  const stats = [
+    ["Energy", attributes?.energy],
+    ["Might", attributes?.might],
+    ["Power", attributes?.power],
+  ].filter((entry): entry is [string, number] => typeof entry[1] === "number");
+  const domains = details?.classification?.domain ?? [];
+
+  return (
+    <aside className={styles.cardPreview}>
+      <div className={styles.cardPreviewImage}>
+        {image ? (
+          <Image src={image} alt={card.name} fill sizes="240px" className={styles.cardPreviewArt} />
+        ) : (
+          <p>No art available</p>
+        )}
+      </div>
+      <p className={styles.cardPreviewType}>
+        {[details?.classification?.supertype, details?.classification?.type].filter(Boolean).join(" ") ||
+          (card.token ? "Token" : "Card")}
+      </p>
+      <h3>{card.name}</h3>
+      {stats.length > 0 && (
+        <p className={styles.cardPreviewStats}>
+          {stats.map(([label, value]) => (
+            <span key={label}>
+              {label} {value}
+            </span>
+          ))}
+        </p>
+      )}
+      <p className={styles.cardPreviewMeta}>{domains.length ? domains.join(", ") : "Neutral"}</p>
+      {loading && <p className={styles.cardPreviewMeta}>Loading card text…</p>}
+      {details?.text?.plain && <p className={styles.cardPreviewText}>{details.text.plain}</p>}
+      {details && details.tags.length > 0 && (
+        <p className={styles.cardPreviewMeta}>{details.tags.join(" · ")}</p>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import { supabase } from "@/src/lib/supabaseClient";
+import { CANNED_MESSAGES, MAX_MESSAGE_LENGTH } from "@/src/lib/matchChat";
+import type { MatchMessageChannel, MatchMessageRecord, MatchSummary } from "@/src/types/match";
+import styles from "./MatchRoom.module.css";
+
+const MAX_MESSAGES = 100;
+
+const CHANNEL_LABELS: Record<MatchMessageChannel, string> = {
+  players: "Players",
+  spectators: "Spectators",
+};
+
+interface MatchChatProps {
+  match: Pick<MatchSummary, "id" | "code" | "player1_id" | "player2_id">;
+  initialMessages: MatchMessageRecord[];
+  currentUserId: string;
+  hidden: boolean;
+}
+
+/**
+ * Table talk for the match drawer. RLS decides which channels reach this client, so players only
+ * ever receive the players channel; spectators can read it but only post in their own.
+ */
+export default function MatchChat({ match, initialMessages, currentUserId, hidden }: MatchChatProps) {
+  const isPlayer = match.player1_id === currentUserId || match.player2_id === currentUserId;
+  const ownChannel: MatchMessageChannel = isPlayer ? "players" : "spectators";
+  const [messages, setMessages] = useState<MatchMessageRecord[]>(initialMessages);
+  const [channel, setChannel] = useState<MatchMessageChannel>(ownChannel);
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  function addMessage(message: MatchMessageRecord) {
+    setMessages((prev) =>
+      prev.some((existing) => existing.id === message.id) ? prev : [...prev, message].slice(-MAX_MESSAGES)
+    );
+  }
+
+  useEffect(() => {
+    const subscription = supabase
+      .channel(`match-chat-${match.id}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "match_messages", filter: `match_id=eq.${match.id}` },
+        (payload) => addMessage(payload.new as MatchMessageRecord)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(subscription);
+    };
+  }, [match.id]);
+
+  const visible = messages.filter((message) => message.channel === channel);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [visible.length, hidden]);
+
+  async function send(body: string) {
+    const text = body.trim();
+    if (!text || sending) return;
+    setSending(true);
+    setError(null);
+    const response = await fetch(`/api/match/${match.code}/messages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ body: text }),
+    });
+    const result = await response.json().catch(() => ({}));
+    setSending(false);
+    if (!response.ok) {
+      setError(result.error ?? "Unable to send message");
+      return;
+    }
+    if (result.message) {
+      addMessage(result.message as MatchMessageRecord);
+    }
+    setDraft("");
+  }
+
+  function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    send(draft);
+  }
+
+  function senderLabel(message: MatchMessageRecord) {
+    if (message.sender_id === currentUserId) return "You";
+    if (message.sender_id === match.player1_id) return "P1";
+    if (message.sender_id === match.player2_id) return "P2";
+    return message.sender_name ?? "Spectator";
+  }
+
+  const canPost = channel === ownChannel;
+
+  return (
+    <div className={styles.chatPane} hidden={hidden}>
+      {!isPlayer && (
+        <div className={styles.chatChannels}>
+          {(["players", "spectators"] as MatchMessageChannel[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              className={option === channel ? styles.chatChannelActive : undefined}
+              onClick={() => setChannel(option)}
+            >
+              {CHANNEL_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      )}
+      <div ref={scrollRef} className={styles.logScroll}>
+        {visible.length === 0 && <p className={styles.emptyLog}>No messages yet.</p>}
+        {visible.map((message) => (
+          <div
+            key={message.id}
+            className={`${styles.chatMessage} ${message.canned ? styles.chatCanned : ""}`}
+          >
+            <span className={styles.chatSender}>{senderLabel(message)}</span>
+            <p>{message.body}</p>
+          </div>
+        ))}
+      </div>
+      {canPost ? (
+        <>
+          <div className={styles.chatCannedRow}>
+            {CANNED_MESSAGES.map((text) => (
+              <button key={text} type="button" disabled={sending} onClick={() => send(text)}>
+                {text}
+              </button>
+            ))}
+          </div>
+          <form className={styles.chatForm} onSubmit={handleSubmit}>
+            <input
+              value={draft}
+              maxLength={MAX_MESSAGE_LENGTH}
+              placeholder={isPlayer ? "Message your opponent" : "Chat with other spectators"}
+              onChange={(event) => setDraft(event.target.value)}
+            />
+            <button type="submit" className={styles.primaryButton} disabled={sending || !draft.trim()}>
+              Send
+            </button>
+          </form>
+        </>
+      ) : (
+        <p className={styles.overlayHint}>Spectators can read the players channel but not post in it.</p>
+      )}
+      {error && <p className={styles.errorBanner}>{error}</p>}
+    </div>
+  );
+}
@@ -1,24 +1,52 @@
 "use client";
 
-import { useEffect, useMemo, useState, type DragEvent } from "react";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type DragEvent,
+  type MouseEvent,
+  type ReactNode,
+} from "react";
 import { useRouter } from "next/navigation";
+import type { RealtimeChannel } from "@supabase/supabase-js";
 import { supabase } from "@/src/lib/supabaseClient";
+import CardPreview, { canPreviewCard } from "@/src/components/match/CardPreview";
+import MatchChat from "@/src/components/match/MatchChat";
 import type {
+  AutoStepSettings,
+  BattlefieldZoneKey,
   MatchCard,
   MatchEventRecord,
+  MatchMessageRecord,
+  MatchPhase,
+  MatchPresence,
   MatchState,
   MatchSummary,
   PlayerSlot,
   PlayerState,
+  SideboardSwap,
+  TokenDefinition,
   ZoneKey,
 } from "@/src/types/match";
+import type { DeckCardEntry } from "@/src/types/deck";
 import styles from "./MatchRoom.module.css";
 
 interface MatchRoomProps {
   match: MatchSummary;
   initialState: MatchState;
+  initialVersion: number;
   initialEvents: MatchEventRecord[];
+  initialMessages: MatchMessageRecord[];
   currentUserId: string;
+  currentUserName: string | null;
+}
+
+interface SpectatorEntry {
+  userId: string;
+  name: string | null;
 }
 
 interface DropPayload {
@@ -27,12 +55,31 @@ interface DropPayload {
   fromZone: ZoneKey;
 }
 
+interface CardLocation {
+  slot: PlayerSlot;
+  zone: ZoneKey;
+  card: MatchCard;
+}
+
+type CardActionHandler = (type: string, payload: Record<string, unknown>) => void;
+
+// `controllable` marks cards the keyboard shortcuts may act on; any visible card can be previewed.
+type CardHoverHandler = (location: CardLocation | null, controllable: boolean) => void;
+
+type CardMenuHandler = (location: CardLocation, event: MouseEvent<HTMLDivElement>) => void;
+
+interface CardMenuState {
+  location: CardLocation;
+  x: number;
+  y: number;
+}
+
 type BoardZoneVariant = "small" | "long";
 
 interface LayoutZone {
   label: string;
   variant: BoardZoneVariant;
-  zoneKey?: ZoneKey;
+  zoneKey: ZoneKey;
 }
 
 interface PlayerMatLayout {
@@ -41,52 +88,134 @@ interface PlayerMatLayout {
   right: LayoutZone[];
 }
 
-const BOARD_BASE_HEIGHT = 900;
+const BOARD_BASE_HEIGHT = 1080;
 const HEADER_RESERVE = 140;
 const MIN_BOARD_SCALE = 0.7;
 
-const PLAYER_MAT_LAYOUT: Record<"top" | "bottom", PlayerMatLayout> = {
-  top: {
-    left: [
-      { label: "Trash", variant: "small", zoneKey: "discard" },
-      { label: "Runes Deck", variant: "small" },
-    ],
-    center: [
-      { label: "Runes", variant: "long", zoneKey: "hand" },
-      { label: "Base", variant: "long" },
-      { label: "Battlefield", variant: "long", zoneKey: "battlefield" },
-    ],
-    right: [
-      { label: "Main Deck", variant: "small", zoneKey: "deck" },
-      { label: "Champion", variant: "small" },
-      { label: "Legend", variant: "small" },
-    ],
-  },
-  bottom: {
-    left: [
-      { label: "Champion", variant: "small" },
-      { label: "Legend", variant: "small" },
-    ],
-    center: [
-      { label: "Battlefield", variant: "long", zoneKey: "battlefield" },
-      { label: "Base", variant: "long" },
-      { label: "Runes", variant: "long", zoneKey: "hand" },
-    ],
-    right: [
-      { label: "Main Deck", variant: "small", zoneKey: "deck" },
-      { label: "Trash", variant: "small", zoneKey: "discard" },
-      { label: "Runes Deck", variant: "small" },
-    ],
-  },
+const LONG_PRESS_MS = 450;
+
+const BATTLEFIELD_KEYS: BattlefieldZoneKey[] = ["battlefield1", "battlefield2", "battlefield3"];
+
+// The top mat is rotated 180deg, so one layout mirrors naturally across the center line.
+const PLAYER_MAT_LAYOUT: PlayerMatLayout = {
+  left: [
+    { label: "Legend", variant: "small", zoneKey: "legend" },
+    { label: "Champion", variant: "small", zoneKey: "champion" },
+    { label: "Banish", variant: "small", zoneKey: "banish" },
+  ],
+  center: [
+    { label: "Base", variant: "long", zoneKey: "base" },
+    { label: "Runes", variant: "long", zoneKey: "runes" },
+    { label: "Hand", variant: "long", zoneKey: "hand" },
+  ],
+  right: [
+    { label: "Main Deck", variant: "small", zoneKey: "deck" },
+    { label: "Trash", variant: "small", zoneKey: "discard" },
+    { label: "Runes Deck", variant: "small", zoneKey: "runeDeck" },
+  ],
+};
+
+const ZONE_LABELS: Record<ZoneKey, string> = {
+  deck: "main deck",
+  hand: "hand",
+  base: "base",
+  discard: "trash",
+  banish: "banish",
+  legend: "legend zone",
+  champion: "champion zone",
+  runeDeck: "rune deck",
+  runes: "rune pool",
+  battlefield1: "battlefield 1",
+  battlefield2: "battlefield 2",
+  battlefield3: "battlefield 3",
+};
+
+const PHASE_LABELS: Record<MatchPhase, string> = {
+  awaken: "Awaken",
+  beginning: "Beginning",
+  channel: "Channel",
+  draw: "Draw",
+  action: "Action",
+  end: "End",
 };
 
-export default function MatchRoom({ match, initialState, initialEvents, currentUserId }: MatchRoomProps) {
+// Mirrors the server defaults for matches created before auto steps were configurable.
+const DEFAULT_AUTO_STEPS: AutoStepSettings = { readyOnAwaken: true, channelRunes: 2, drawCards: 1 };
+
+// Mirrors MAX_MULLIGAN_CARDS on the server.
+const MAX_MULLIGAN_CARDS = 2;
+
+// Mirrors MAX_SWAPS in the server's set rules.
+const MAX_SIDEBOARD_SWAPS = 8;
+
+// Zones that collapse into a face-down pile while any of their cards are hidden from the viewer.
+const STACKED_ZONES: ZoneKey[] = ["deck", "runeDeck", "hand"];
+
+// Counter that number-key shortcuts and the +Ctr prompt default to.
+const DEFAULT_COUNTER = "damage";
+
+const HOTKEYS: { keys: string; description: string }[] = [
+  { keys: "D", description: "Draw a card" },
+  { keys: "S", description: "Shuffle your deck" },
+  { keys: "E", description: "Exhaust or ready the hovered card" },
+  { keys: "T", description: "Move the hovered card to its owner's trash" },
+  { keys: "1-9", description: `Add that many ${DEFAULT_COUNTER} counters to the hovered card` },
+  { keys: "Shift + 1-9", description: `Remove that many ${DEFAULT_COUNTER} counters` },
+  { keys: "Right-click", description: "Move a card to any zone, top or bottom" },
+  { keys: "?", description: "Show or hide this list" },
+  { keys: "Esc", description: "Close menus" },
+];
+
+// Order of the destinations in the card context menu.
+const MENU_ZONES: ZoneKey[] = [
+  "hand",
+  "base",
+  ...BATTLEFIELD_KEYS,
+  "legend",
+  "champion",
+  "runes",
+  "deck",
+  "runeDeck",
+  "discard",
+  "banish",
+];
+
+// Tokens only exist in play, so the picker only offers board zones a player puts units into.
+const TOKEN_ZONES: ZoneKey[] = ["base", "battlefield1", "battlefield2", "battlefield3"];
+
+const REVEAL_EVENT_TYPES = ["reveal", "reveal-hand"];
+
+const UNDO_EVENT_TYPES = ["undo_requested", "undo_declined", "undo_applied"];
+
+export default function MatchRoom({
+  match,
+  initialState,
+  initialVersion,
+  initialEvents,
+  initialMessages,
+  currentUserId,
+  currentUserName,
+}: MatchRoomProps) {
   const router = useRouter();
   const [state, setState] = useState<MatchState>(initialState);
+  const versionRef = useRef(initialVersion);
   const [events, setEvents] = useState<MatchEventRecord[]>(initialEvents);
   const [actionError, setActionError] = useState<string | null>(null);
   const [logOpen, setLogOpen] = useState(false);
+  const [drawerTab, setDrawerTab] = useState<"log" | "chat">("log");
   const [boardScale, setBoardScale] = useState(1);
+  const [revealPickerOpen, setRevealPickerOpen] = useState(false);
+  const [shownReveal, setShownReveal] = useState<MatchEventRecord | null>(null);
+  const [mulliganHidden, setMulliganHidden] = useState(false);
+  const [tokenPickerOpen, setTokenPickerOpen] = useState(false);
+  const [cardMenu, setCardMenu] = useState<CardMenuState | null>(null);
+  const [hotkeyHelpOpen, setHotkeyHelpOpen] = useState(false);
+  const hoveredCardRef = useRef<CardLocation | null>(null);
+  const [previewCard, setPreviewCard] = useState<MatchCard | null>(null);
+  const [perspective, setPerspective] = useState<PlayerSlot>("p1");
+  const [spectators, setSpectators] = useState<SpectatorEntry[]>([]);
+  const [spectatorsAllowed, setSpectatorsAllowed] = useState(match.spectators_allowed);
+  const presenceRef = useRef<RealtimeChannel | null>(null);
 
   const viewerSlot: PlayerSlot | null = useMemo(() => {
     if (match.player1_id === currentUserId) return "p1";
@@ -94,25 +223,95 @@ export default function MatchRoom({ match, initialState, initialEvents, currentU
     return null;
   }, [match.player1_id, match.player2_id, currentUserId]);
 
-  const bottomSlot: PlayerSlot = viewerSlot ?? "p1";
+  // Spectators pick whose side of the table sits at the bottom; they still only see public info.
+  const bottomSlot: PlayerSlot = viewerSlot ?? perspective;
   const topSlot: PlayerSlot = bottomSlot === "p1" ? "p2" : "p1";
   const canControl = Boolean(viewerSlot);
 
+  // Mirrors the server rule: player actions from the current game can be undone unless a later
+  // rollback removed them, i.e. they sit between that rollback's target and the rollback itself.
+  const undoableEventIds = useMemo(() => {
+    const ids: number[] = [];
+    const rollbackTargets: number[] = [];
+    for (const event of events) {
+      if (event.type === "game_started") break;
+      if (event.type === "undo_applied") {
+        rollbackTargets.push(Number(event.payload?.eventId));
+        continue;
+      }
+      const rolledBack = rollbackTargets.some((targetId) => targetId <= event.id);
+      if (
+        !rolledBack &&
+        event.state_version !== null &&
+        event.payload?.actor &&
+        !UNDO_EVENT_TYPES.includes(event.type)
+      ) {
+        ids.push(event.id);
+      }
+    }
+    return ids;
+  }, [events]);
+
+  const autoSteps = state.autoSteps ?? DEFAULT_AUTO_STEPS;
+  const controlsTurn = Boolean(viewerSlot) && (state.turn === viewerSlot || !state.players.p2.id);
+  const activeLabel = state.turn === viewerSlot ? "Your turn" : `Player ${state.turn.toUpperCase()}'s turn`;
+
+  const opening = state.opening ?? null;
+  const awaitingMulligan = Boolean(viewerSlot && opening && !opening[viewerSlot].lockedIn);
+
+  const set = state.set ?? null;
+  const sideboard = set?.sideboard ?? null;
+  const awaitingSideboard = Boolean(viewerSlot && sideboard && !sideboard.choices[viewerSlot].lockedIn);
+  const setWins = {
+    p1: set?.results.filter((result) => result.winner === "p1").length ?? 0,
+    p2: set?.results.filter((result) => result.winner === "p2").length ?? 0,
+  };
+
+  const chain = state.chain ?? null;
+  const holdsPriority =
+    Boolean(viewerSlot) && (!chain || chain.priority === viewerSlot || !state.players.p2.id);
+
+  const pendingUndo = state.pendingUndo ?? null;
+  const pendingUndoEvent = pendingUndo ? events.find((event) => event.id === pendingUndo.eventId) : undefined;
+  const pendingUndoLabel = pendingUndoEvent ? describeEvent(pendingUndoEvent) : pendingUndo?.eventType;
+
+  // Responses can arrive out of order, so never let an older version replace a newer one.
+  const applyServerState = useCallback((nextState: MatchState, nextVersion: number) => {
+    if (nextVersion < versionRef.current) return;
+    versionRef.current = nextVersion;
+    setState(nextState);
+  }, []);
+
   useEffect(() => {
+    // Raw match_state is not readable by clients; every logged event is our cue to pull
+    // the redacted view for this viewer from the state API.
+    async function refreshState() {
+      const response = await fetch(`/api/match/${match.code}/state`, { cache: "no-store" });
+      if (response.status === 403 && !viewerSlot) {
+        router.replace("/lobby");
+        return;
+      }
+      if (!response.ok) return;
+      const body = (await response.json().catch(() => ({}))) as { state?: MatchState; version?: number };
+      if (body.state && typeof body.version === "number") {
+        applyServerState(body.state, body.version);
+      }
+    }
+
     const channel = supabase
       .channel(`match-${match.id}`)
-      .on(
-        "postgres_changes",
-        { event: "UPDATE", schema: "public", table: "match_state", filter: `match_id=eq.${match.id}` },
-        (payload) => {
-          setState(payload.new.state as MatchState);
-        }
-      )
       .on(
         "postgres_changes",
         { event: "INSERT", schema: "public", table: "match_events", filter: `match_id=eq.${match.id}` },
         (payload) => {
-          setEvents((prev) => [payload.new as MatchEventRecord, ...prev].slice(0, 60));
+          const event = payload.new as MatchEventRecord;
+          setEvents((prev) => [event, ...prev].slice(0, 60));
+          if (REVEAL_EVENT_TYPES.includes(event.type) && event.payload?.player !== viewerSlot) {
+            setShownReveal(event);
+          }
+          if (event.state_version === null || event.state_version > versionRef.current) {
+            refreshState();
+          }
         }
       )
       .subscribe();
@@ -120,7 +319,40 @@ export default function MatchRoom({ match, initialState, initialEvents, currentU
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [match.id]);
+  }, [match.id, match.code, viewerSlot, applyServerState, router]);
+
+  useEffect(() => {
+    const channel = supabase.channel(`match-presence-${match.id}`, {
+      config: { presence: { key: currentUserId } },
+    });
+
+    channel
+      .on("presence", { event: "sync" }, () => {
+        const present = channel.presenceState<MatchPresence>();
+        setSpectators(
+          Object.entries(present)
+            .filter(([, metas]) => metas[0]?.role === "spectator")
+            .map(([userId, metas]) => ({ userId, name: metas[0]?.name ?? null }))
+        );
+      })
+      // The server already refuses removed spectators; this just sends them off straight away.
+      .on("broadcast", { event: "spectators" }, ({ payload }) => {
+        if (!viewerSlot && (payload?.closed || payload?.kicked === currentUserId)) {
+          router.replace("/lobby");
+        }
+      })
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          channel.track({ name: currentUserName, role: viewerSlot ?? "spectator" } satisfies MatchPresence);
+        }
+      });
+    presenceRef.current = channel;
+
+    return () => {
+      presenceRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [match.id, currentUserId, currentUserName, viewerSlot, router]);
 
   useEffect(() => {
     function syncScale() {
@@ -140,20 +372,159 @@ export default function MatchRoom({ match, initialState, initialEvents, currentU
     };
   }, []);
 
+  async function updateSpectators(change: { allowed: boolean } | { kick: string }) {
+    setActionError(null);
+    const response = await fetch(`/api/match/${match.code}/spectators`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(change),
+    });
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      setActionError(body.error ?? "Unable to update spectators");
+      return;
+    }
+    if ("allowed" in change) {
+      setSpectatorsAllowed(change.allowed);
+    }
+    presenceRef.current?.send({
+      type: "broadcast",
+      event: "spectators",
+      payload: "kick" in change ? { kicked: change.kick } : { closed: !change.allowed },
+    });
+  }
+
+  async function lockSideboard(swaps: SideboardSwap[], firstPlayer: PlayerSlot | null) {
+    setActionError(null);
+    const response = await fetch(`/api/match/${match.code}/sideboard`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ swaps, firstPlayer }),
+    });
+
+    const body = await response.json().catch(() => ({}));
+    if (body.state && typeof body.version === "number") {
+      applyServerState(body.state as MatchState, body.version);
+    }
+    if (!response.ok) {
+      setActionError(body.error ?? "Unable to lock in sideboarding");
+    }
+  }
+
   async function runAction(type: string, payload?: Record<string, unknown>) {
     setActionError(null);
     const response = await fetch(`/api/match/${match.code}/action`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ type, payload }),
+      body: JSON.stringify({ type, payload, baseVersion: versionRef.current }),
     });
 
+    const body = await response.json().catch(() => ({}));
+    // Stale (409) responses carry the current board too, so the player sees what changed.
+    if (body.state && typeof body.version === "number") {
+      applyServerState(body.state as MatchState, body.version);
+    }
     if (!response.ok) {
-      const body = await response.json().catch(() => ({}));
       setActionError(body.error ?? "Action failed");
     }
   }
 
+  function promptChain() {
+    const label = window.prompt(chain ? "Respond with what?" : "What are you playing?")?.trim();
+    if (label) {
+      runAction("chain-add", { label });
+    }
+  }
+
+  function promptPeek() {
+    const count = Number(window.prompt("Look at how many cards from the top?", "3"));
+    if (Number.isFinite(count) && count > 0) {
+      runAction("peek", { count });
+    }
+  }
+
+  function moveCard(location: CardLocation, toSlot: PlayerSlot, toZone: ZoneKey, position: "top" | "bottom") {
+    runAction("move-card", {
+      cardUid: location.card.uid,
+      fromSlot: location.slot,
+      fromZone: location.zone,
+      toSlot,
+      toZone,
+      position,
+    });
+  }
+
+  // Re-bound every render so the shortcuts always act on the latest board.
+  useEffect(() => {
+    function handleKeyDown(event: KeyboardEvent) {
+      const target = event.target as HTMLElement | null;
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      if (target && (["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName) || target.isContentEditable)) {
+        return;
+      }
+
+      if (event.key === "Escape") {
+        setCardMenu(null);
+        setHotkeyHelpOpen(false);
+        return;
+      }
+      if (event.key === "?") {
+        setHotkeyHelpOpen((prev) => !prev);
+        return;
+      }
+      if (!viewerSlot) return;
+
+      const hovered = hoveredCardRef.current;
+      const cardTarget = hovered ? { slot: hovered.slot, zone: hovered.zone, cardUid: hovered.card.uid } : null;
+      const digit = event.code.startsWith("Digit") ? Number(event.code.slice(5)) : 0;
+
+      if (digit > 0 && cardTarget) {
+        runAction("adjust-counter", {
+          ...cardTarget,
+          counter: DEFAULT_COUNTER,
+          delta: event.shiftKey ? -digit : digit,
+        });
+        return;
+      }
+
+      switch (event.key.toLowerCase()) {
+        case "d":
+          runAction("draw-card", { player: viewerSlot });
+          break;
+        case "s":
+          runAction("shuffle-deck", { player: viewerSlot });
+          break;
+        case "e":
+          if (hovered && cardTarget) {
+            runAction(hovered.card.exhausted ? "ready-card" : "exhaust-card", cardTarget);
+          }
+          break;
+        case "t":
+          if (hovered) {
+            hoveredCardRef.current = null;
+            moveCard(hovered, hovered.card.owner, "discard", "top");
+          }
+          break;
+        default:
+          return;
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  function handleCardHover(location: CardLocation | null, controllable: boolean) {
+    hoveredCardRef.current = controllable ? location : null;
+    setPreviewCard(location && canPreviewCard(location.card) ? location.card : null);
+  }
+
+  function handleCardMenu(location: CardLocation, event: MouseEvent<HTMLDivElement>) {
+    event.preventDefault();
+    setCardMenu({ location, x: event.clientX, y: event.clientY });
+  }
+
   function handleDrop(slot: PlayerSlot, zone: ZoneKey, nativeEvent: DragEvent<HTMLDivElement>) {
     if (!viewerSlot) return;
     nativeEvent.preventDefault();
@@ -170,6 +541,25 @@ export default function MatchRoom({ match, initialState, initialEvents, currentU
     });
   }
 
+  function handleAttach(host: CardLocation, nativeEvent: DragEvent<HTMLDivElement>) {
+    if (!viewerSlot) return;
+    nativeEvent.preventDefault();
+    nativeEvent.stopPropagation();
+    const data = nativeEvent.dataTransfer.getData("application/json");
+    if (!data) return;
+
+    const payload = JSON.parse(data) as DropPayload;
+    if (payload.cardUid === host.card.uid) return;
+    runAction("attach-card", {
+      cardUid: payload.cardUid,
+      fromSlot: payload.fromSlot,
+      fromZone: payload.fromZone,
+      hostUid: host.card.uid,
+      hostSlot: host.slot,
+      hostZone: host.zone,
+    });
+  }
+
   function handleDragStart(event: DragEvent<HTMLDivElement>, slot: PlayerSlot, zone: ZoneKey, card: MatchCard) {
     event.dataTransfer.setData(
       "application/json",
@@ -180,12 +570,147 @@ export default function MatchRoom({ match, initialState, initialEvents, currentU
   return (
     <main className={styles.page}>
       <header className={styles.matchHeader}>
+        <div className={styles.turnStatus}>
+          {set && set.bestOf > 1 && (
+            <span className={styles.turnNumber}>
+              Game {set.game} of {set.bestOf} · P1 {setWins.p1} – {setWins.p2} P2
+            </span>
+          )}
+          <span className={styles.turnNumber}>Turn {state.turnNumber ?? 1}</span>
+          <span>{activeLabel}</span>
+          <span className={styles.phaseName}>{PHASE_LABELS[state.phase] ?? state.phase} phase</span>
+          {!viewerSlot && (
+            <label className={styles.turnSetting}>
+              Spectating
+              <select value={perspective} onChange={(event) => setPerspective(event.target.value as PlayerSlot)}>
+                <option value="p1">P1 view</option>
+                <option value="p2">P2 view</option>
+              </select>
+            </label>
+          )}
+          <details className={styles.autoSteps}>
+            <summary>
+              {spectatorsAllowed ? `${spectators.length} watching` : "Spectating closed"}
+            </summary>
+            {spectators.length === 0 && <span>Nobody is watching.</span>}
+            {spectators.map((spectator) => (
+              <span key={spectator.userId} className={styles.spectatorEntry}>
+                {spectator.userId === currentUserId ? "You" : (spectator.name ?? "Spectator")}
+                {viewerSlot === "p1" && (
+                  <button type="button" onClick={() => updateSpectators({ kick: spectator.userId })}>
+                    Kick
+                  </button>
+                )}
+              </span>
+            ))}
+            {viewerSlot === "p1" && (
+              <label>
+                <input
+                  type="checkbox"
+                  checked={spectatorsAllowed}
+                  onChange={(event) => updateSpectators({ allowed: event.target.checked })}
+                />
+                Allow spectators
+              </label>
+            )}
+          </details>
+          {viewerSlot === "p1" &&
+            state.turnNumber === 1 &&
+            state.phase === "awaken" &&
+            !state.opening &&
+            (state.set?.game ?? 1) === 1 && (
+            <label className={styles.turnSetting}>
+              First player
+              <select
+                value={state.firstPlayer ?? "p1"}
+                onChange={(event) => runAction("set-first-player", { player: event.target.value })}
+              >
+                <option value="p1">P1</option>
+                <option value="p2">P2</option>
+              </select>
+            </label>
+          )}
+          {viewerSlot && (
+            <details className={styles.autoSteps}>
+              <summary>Auto steps</summary>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={autoSteps.readyOnAwaken}
+                  onChange={(event) =>
+                    runAction("set-auto-steps", { readyOnAwaken: event.target.checked })
+                  }
+                />
+                Ready cards on awaken
+              </label>
+              <label>
+                Channel
+                <input
+                  type="number"
+                  min={0}
+                  max={5}
+                  value={autoSteps.channelRunes}
+                  onChange={(event) =>
+                    runAction("set-auto-steps", { channelRunes: Number(event.target.value) })
+                  }
+                />
+                runes
+              </label>
+              <label>
+                Draw
+                <input
+                  type="number"
+                  min={0}
+                  max={5}
+                  value={autoSteps.drawCards}
+                  onChange={(event) =>
+                    runAction("set-auto-steps", { drawCards: Number(event.target.value) })
+                  }
+                />
+                cards
+              </label>
+            </details>
+          )}
+        </div>
         <div className={styles.headerButtons}>
           <button onClick={() => router.push("/lobby")} className={styles.secondaryButton}>
             Back to Lobby
           </button>
+          <button onClick={() => router.push(`/match/${match.code}/replay`)} className={styles.secondaryButton}>
+            Replay
+          </button>
+          <button onClick={() => setHotkeyHelpOpen(true)} className={styles.secondaryButton}>
+            Shortcuts
+          </button>
+          {viewerSlot && (
+            <button
+              onClick={() => runAction("request-undo", { eventId: undoableEventIds[0] })}
+              className={styles.secondaryButton}
+              disabled={undoableEventIds.length === 0 || Boolean(pendingUndo)}
+            >
+              Undo Last
+            </button>
+          )}
+          {viewerSlot && (
+            <button onClick={promptChain} className={styles.secondaryButton} disabled={!holdsPriority}>
+              {chain ? "Respond" : "Open Chain"}
+            </button>
+          )}
           {viewerSlot && (
-            <button onClick={() => runAction("end-turn")} className={styles.primaryButton}>
+            <button
+              onClick={() => runAction("next-phase")}
+              className={styles.secondaryButton}
+              disabled={!controlsTurn}
+            >
+              Next Phase
+            </button>
+          )}
+          {viewerSlot && (
+            <button
+              onClick={() => runAction("end-turn")}
+              className={styles.primaryButton}
+              disabled={!controlsTurn}
+            >
               End Turn
             </button>
           )}
@@ -212,10 +737,18 @@ export default function MatchRoom({ match, initialState, initialEvents, currentU
               canControl={canControl}
               onDraw={() => runAction("draw-card", { player: topSlot })}
               onShuffle={() => runAction("shuffle-deck", { player: topSlot })}
-              onMulligan={() => runAction("mulligan", { player: topSlot })}
-              onLife={(delta) => runAction("life-change", { player: topSlot, delta })}
+              onChannel={() => runAction("channel-runes", { player: topSlot })}
+              onPeek={promptPeek}
+              onReveal={() => setRevealPickerOpen(true)}
+              onToken={() => setTokenPickerOpen(true)}
+              victoryTarget={state.victoryTarget}
+              onScore={(delta) => runAction("score-points", { player: topSlot, delta })}
               onDrop={handleDrop}
+              onAttach={handleAttach}
               onDragStart={handleDragStart}
+              onCardAction={runAction}
+              onCardHover={handleCardHover}
+              onCardMenu={handleCardMenu}
             />
 
             <div className={styles.centerField}>RIFTBOUND ARENA</div>
@@ -228,13 +761,117 @@ export default function MatchRoom({ match, initialState, initialEvents, currentU
               canControl={canControl}
               onDraw={() => runAction("draw-card", { player: bottomSlot })}
               onShuffle={() => runAction("shuffle-deck", { player: bottomSlot })}
-              onMulligan={() => runAction("mulligan", { player: bottomSlot })}
-              onLife={(delta) => runAction("life-change", { player: bottomSlot, delta })}
+              onMulligan={awaitingMulligan ? () => setMulliganHidden(false) : undefined}
+              onChannel={() => runAction("channel-runes", { player: bottomSlot })}
+              onPeek={promptPeek}
+              onReveal={() => setRevealPickerOpen(true)}
+              onToken={() => setTokenPickerOpen(true)}
+              victoryTarget={state.victoryTarget}
+              onScore={(delta) => runAction("score-points", { player: bottomSlot, delta })}
               onDrop={handleDrop}
+              onAttach={handleAttach}
               onDragStart={handleDragStart}
+              onCardAction={runAction}
+              onCardHover={handleCardHover}
+              onCardMenu={handleCardMenu}
             />
           </div>
 
+          {state.winner && (
+            <p className={styles.winnerBanner}>
+              {state.winner === viewerSlot ? "You win" : `${state.winner.toUpperCase()} wins`}
+              {set && set.bestOf > 1 ? ` game ${set.game}` : ""} with {state.players[state.winner].points}{" "}
+              points
+              {set && set.bestOf > 1 && !sideboard && " and the set"}
+            </p>
+          )}
+          {sideboard && (
+            <p className={styles.openingBanner}>
+              {awaitingSideboard
+                ? "Sideboard for the next game, then lock in."
+                : viewerSlot
+                  ? "Waiting for your opponent to finish sideboarding."
+                  : "Both players are sideboarding for the next game."}
+            </p>
+          )}
+          {opening && (
+            <p className={styles.openingBanner}>
+              {awaitingMulligan
+                ? "Opening hands: choose up to two cards to recycle, then lock in."
+                : viewerSlot
+                  ? "Waiting for your opponent to lock in their mulligan."
+                  : "Both players are choosing their opening hands."}
+            </p>
+          )}
+          {chain && (
+            <div className={styles.chainBanner}>
+              <div>
+                <p>
+                  {chain.priority === viewerSlot
+                    ? "Pass to resolve the top of the chain, or respond."
+                    : `Waiting for Player ${chain.priority} to pass or respond.`}
+                </p>
+                <ol className={styles.chainList}>
+                  {[...chain.items].reverse().map((item) => (
+                    <li key={item.id}>
+                      <span>{item.controller.toUpperCase()}</span> {item.label}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+              {holdsPriority && (
+                <>
+                  <button
+                    type="button"
+                    className={styles.primaryButton}
+                    onClick={() => runAction("chain-pass")}
+                  >
+                    Pass
+                  </button>
+                  <button type="button" className={styles.secondaryButton} onClick={promptChain}>
+                    Respond
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+          {pendingUndo && (
+            <div className={styles.undoBanner}>
+              <p>
+                {pendingUndo.requestedBy === viewerSlot
+                  ? "Waiting for your opponent to approve rolling back to before: "
+                  : `Player ${pendingUndo.requestedBy} wants to roll back to before: `}
+                {pendingUndoLabel}
+              </p>
+              {viewerSlot && pendingUndo.requestedBy === viewerSlot && (
+                <button
+                  type="button"
+                  className={styles.secondaryButton}
+                  onClick={() => runAction("respond-undo", { accept: false })}
+                >
+                  Withdraw
+                </button>
+              )}
+              {viewerSlot && pendingUndo.requestedBy !== viewerSlot && (
+                <>
+                  <button
+                    type="button"
+                    className={styles.primaryButton}
+                    onClick={() => runAction("respond-undo", { accept: true })}
+                  >
+                    Allow
+                  </button>
+                  <button
+                    type="button"
+                    className={styles.secondaryButton}
+                    onClick={() => runAction("respond-undo", { accept: false })}
+                  >
+                    Decline
+                  </button>
+                </>
+              )}
+            </div>
+          )}
           {actionError && <p className={styles.errorBanner}>{actionError}</p>}
           </section>
         </div>
@@ -249,12 +886,33 @@ export default function MatchRoom({ match, initialState, initialEvents, currentU
 
         <aside className={`${styles.logDrawer} ${logOpen ? styles.logDrawerOpen : ""}`}>
           <div className={styles.logHeader}>
-            <h2>Game Log</h2>
+            <div className={styles.drawerTabs}>
+              <button
+                type="button"
+                className={drawerTab === "log" ? styles.drawerTabActive : undefined}
+                onClick={() => setDrawerTab("log")}
+              >
+                Log
+              </button>
+              <button
+                type="button"
+                className={drawerTab === "chat" ? styles.drawerTabActive : undefined}
+                onClick={() => setDrawerTab("chat")}
+              >
+                Chat
+              </button>
+            </div>
             <button type="button" className={styles.closeDrawer} onClick={() => setLogOpen(false)}>
               Close
             </button>
           </div>
-          <div className={styles.logScroll}>
+          <MatchChat
+            match={match}
+            initialMessages={initialMessages}
+            currentUserId={currentUserId}
+            hidden={drawerTab !== "chat"}
+          />
+          <div className={styles.logScroll} hidden={drawerTab !== "log"}>
             {events.length === 0 && <p className={styles.emptyLog}>Actions will appear here.</p>}
             {events.map((event) => (
               <div key={event.id} className={styles.logEntry}>
@@ -262,11 +920,75 @@ export default function MatchRoom({ match, initialState, initialEvents, currentU
                 <p className={styles.logTimestamp}>
                   {new Date(event.created_at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
                 </p>
+                {viewerSlot && !pendingUndo && undoableEventIds.includes(event.id) && (
+                  <button
+                    type="button"
+                    className={styles.logUndoButton}
+                    onClick={() => runAction("request-undo", { eventId: event.id })}
+                  >
+                    Undo to here
+                  </button>
+                )}
               </div>
             ))}
           </div>
         </aside>
       </div>
+
+      {viewerSlot && state.players[viewerSlot].peek && (
+        <PeekOverlay
+          key={state.players[viewerSlot].peek?.uids.join(",")}
+          player={state.players[viewerSlot]}
+          onDone={(top, bottom) => runAction("reorder-top", { top, bottom })}
+        />
+      )}
+      {viewerSlot && awaitingMulligan && !mulliganHidden && (
+        <MulliganPanel
+          hand={state.players[viewerSlot].zones.hand}
+          onLockIn={(cardUids) => runAction("lock-mulligan", { cardUids })}
+          onClose={() => setMulliganHidden(true)}
+        />
+      )}
+      {viewerSlot && set && sideboard && awaitingSideboard && (
+        <SideboardPanel
+          key={set.game}
+          decklist={set.decklists[viewerSlot]}
+          choosesFirst={sideboard.chooser === viewerSlot}
+          viewerSlot={viewerSlot}
+          onLockIn={lockSideboard}
+        />
+      )}
+      {viewerSlot && revealPickerOpen && (
+        <RevealPicker
+          hand={state.players[viewerSlot].zones.hand}
+          onReveal={(type, payload) => {
+            setRevealPickerOpen(false);
+            runAction(type, payload);
+          }}
+          onClose={() => setRevealPickerOpen(false)}
+        />
+      )}
+      {viewerSlot && tokenPickerOpen && (
+        <TokenPicker
+          onCreate={(token, zone, count) => {
+            setTokenPickerOpen(false);
+            runAction("create-token", { token, zone, count });
+          }}
+          onClose={() => setTokenPickerOpen(false)}
+        />
+      )}
+      {shownReveal && <RevealOverlay event={shownReveal} onClose={() => setShownReveal(null)} />}
+      {viewerSlot && cardMenu && (
+        <CardContextMenu
+          menu={cardMenu}
+          viewerSlot={viewerSlot}
+          onCardAction={runAction}
+          onMove={moveCard}
+          onClose={() => setCardMenu(null)}
+        />
+      )}
+      {previewCard && <CardPreview key={previewCard.uid} card={previewCard} />}
+      {hotkeyHelpOpen && <HotkeyHelp onClose={() => setHotkeyHelpOpen(false)} />}
     </main>
   );
 }
@@ -279,18 +1001,28 @@ interface PlayerMatProps {
   canControl: boolean;
   onDraw: () => void;
   onShuffle: () => void;
-  onMulligan: () => void;
-  onLife: (delta: number) => void;
+  /** Only passed while the viewer still has an opening mulligan to make. */
+  onMulligan?: () => void;
+  onChannel: () => void;
+  onPeek: () => void;
+  onReveal: () => void;
+  onToken: () => void;
+  victoryTarget: number;
+  onScore: (delta: number) => void;
   onDrop: (slot: PlayerSlot, zone: ZoneKey, event: DragEvent<HTMLDivElement>) => void;
+  onAttach: (host: CardLocation, event: DragEvent<HTMLDivElement>) => void;
   onDragStart: (
     event: DragEvent<HTMLDivElement>,
     slot: PlayerSlot,
     zone: ZoneKey,
     card: MatchCard
   ) => void;
+  onCardAction: CardActionHandler;
+  onCardHover: CardHoverHandler;
+  onCardMenu: CardMenuHandler;
 }
 
-function PlayerMat({
+export function PlayerMat({
   variant,
   slot,
   viewerSlot,
@@ -299,11 +1031,20 @@ function PlayerMat({
   onDraw,
   onShuffle,
   onMulligan,
-  onLife,
+  onChannel,
+  onPeek,
+  onReveal,
+  onToken,
+  victoryTarget,
+  onScore,
   onDrop,
+  onAttach,
   onDragStart,
+  onCardAction,
+  onCardHover,
+  onCardMenu,
 }: PlayerMatProps) {
-  const layout = PLAYER_MAT_LAYOUT[variant];
+  const layout = PLAYER_MAT_LAYOUT;
   const label = viewerSlot === slot ? "You" : slot === "p1" ? "Player One" : "Player Two";
   const controlsEnabled = canControl && viewerSlot === slot;
   const playerClass = [styles.player, variant === "top" ? styles.playerTop : ""].filter(Boolean).join(" ");
@@ -315,23 +1056,25 @@ function PlayerMat({
           <p className={styles.playerSlot}>{slot.toUpperCase()}</p>
           <h2>{label}</h2>
           <p className={styles.playerCounts}>
-            Deck {player.zones.deck.length} | Hand {player.zones.hand.length}
+            Deck {player.zones.deck.length} | Hand {player.zones.hand.length} | Runes{" "}
+            {player.zones.runeDeck.length}
           </p>
         </div>
         <div className={styles.playerControls}>
-          <div className={styles.lifeDial}>
+          <div className={styles.pointsDial}>
             <button
               disabled={!controlsEnabled}
-              onClick={() => onLife(-1)}
-              className={styles.lifeButton}
+              onClick={() => onScore(-1)}
+              className={styles.pointsButton}
             >
               -
             </button>
-            <span className={styles.lifeValue}>{player.life}</span>
+            <span className={styles.pointsValue}>{player.points}</span>
+            <span className={styles.pointsTarget}>/ {victoryTarget}</span>
             <button
               disabled={!controlsEnabled}
-              onClick={() => onLife(1)}
-              className={styles.lifeButton}
+              onClick={() => onScore(1)}
+              className={styles.pointsButton}
             >
               +
             </button>
@@ -343,8 +1086,22 @@ function PlayerMat({
             <button onClick={onShuffle} disabled={!controlsEnabled} className={styles.actionButton}>
               Shuffle
             </button>
-            <button onClick={onMulligan} disabled={!controlsEnabled} className={styles.actionButton}>
-              Mulligan
+            {onMulligan && (
+              <button onClick={onMulligan} disabled={!controlsEnabled} className={styles.actionButton}>
+                Mulligan
+              </button>
+            )}
+            <button onClick={onChannel} disabled={!controlsEnabled} className={styles.actionButton}>
+              Channel
+            </button>
+            <button onClick={onPeek} disabled={!controlsEnabled} className={styles.actionButton}>
+              Peek
+            </button>
+            <button onClick={onReveal} disabled={!controlsEnabled} className={styles.actionButton}>
+              Reveal
+            </button>
+            <button onClick={onToken} disabled={!controlsEnabled} className={styles.actionButton}>
+              Token
             </button>
           </div>
         </div>
@@ -357,25 +1114,63 @@ function PlayerMat({
               key={`left-${config.label}-${index}`}
               config={config}
               slot={slot}
-              viewerSlot={viewerSlot}
               player={player}
               canControl={controlsEnabled}
               onDrop={onDrop}
+              onAttach={onAttach}
               onDragStart={onDragStart}
+              onCardAction={onCardAction}
+              onCardHover={onCardHover}
+              onCardMenu={onCardMenu}
             />
           ))}
         </div>
         <div className={styles.mainColumn}>
+          {/* Battlefields are shared ground: either player may move units onto them. */}
+          <div className={styles.battlefieldRow}>
+            {BATTLEFIELD_KEYS.map((zoneKey, index) => (
+              <BoardZone
+                key={zoneKey}
+                config={{
+                  label: player.battlefields[zoneKey].card?.name ?? `Battlefield ${index + 1}`,
+                  variant: "long",
+                  zoneKey,
+                }}
+                header={
+                  <BattlefieldControl
+                    slot={slot}
+                    zone={zoneKey}
+                    controller={player.battlefields[zoneKey].controller}
+                    viewerSlot={viewerSlot}
+                    canControl={canControl}
+                    onCardAction={onCardAction}
+                  />
+                }
+                slot={slot}
+                player={player}
+                canControl={canControl}
+                onDrop={onDrop}
+                onAttach={onAttach}
+                onDragStart={onDragStart}
+                onCardAction={onCardAction}
+                onCardHover={onCardHover}
+                onCardMenu={onCardMenu}
+              />
+            ))}
+          </div>
           {layout.center.map((config, index) => (
             <BoardZone
               key={`center-${config.label}-${index}`}
               config={config}
               slot={slot}
-              viewerSlot={viewerSlot}
               player={player}
               canControl={controlsEnabled}
               onDrop={onDrop}
+              onAttach={onAttach}
               onDragStart={onDragStart}
+              onCardAction={onCardAction}
+              onCardHover={onCardHover}
+              onCardMenu={onCardMenu}
             />
           ))}
         </div>
@@ -385,11 +1180,14 @@ function PlayerMat({
               key={`right-${config.label}-${index}`}
               config={config}
               slot={slot}
-              viewerSlot={viewerSlot}
               player={player}
               canControl={controlsEnabled}
               onDrop={onDrop}
+              onAttach={onAttach}
               onDragStart={onDragStart}
+              onCardAction={onCardAction}
+              onCardHover={onCardHover}
+              onCardMenu={onCardMenu}
             />
           ))}
         </div>
@@ -398,34 +1196,85 @@ function PlayerMat({
   );
 }
 
+interface BattlefieldControlProps {
+  slot: PlayerSlot;
+  zone: BattlefieldZoneKey;
+  controller: PlayerSlot | null;
+  viewerSlot: PlayerSlot | null;
+  canControl: boolean;
+  onCardAction: CardActionHandler;
+}
+
+function BattlefieldControl({ slot, zone, controller, viewerSlot, canControl, onCardAction }: BattlefieldControlProps) {
+  const controllerLabel = !controller
+    ? "Uncontrolled"
+    : controller === viewerSlot
+    ? "You control"
+    : `${controller.toUpperCase()} controls`;
+
+  return (
+    <div className={styles.battlefieldControl}>
+      <span className={controller ? styles.battlefieldControlled : undefined}>{controllerLabel}</span>
+      {canControl && viewerSlot && (
+        <div>
+          {controller !== viewerSlot && (
+            <button
+              type="button"
+              onClick={() => onCardAction("conquer-battlefield", { slot, zone, player: viewerSlot })}
+            >
+              Conquer
+            </button>
+          )}
+          {controller && (
+            <button type="button" onClick={() => onCardAction("hold-battlefield", { slot, zone })}>
+              Hold
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 interface BoardZoneProps {
   config: LayoutZone;
+  header?: ReactNode;
   slot: PlayerSlot;
-  viewerSlot: PlayerSlot | null;
   player: PlayerState;
   canControl: boolean;
   onDrop: (slot: PlayerSlot, zone: ZoneKey, event: DragEvent<HTMLDivElement>) => void;
+  onAttach: (host: CardLocation, event: DragEvent<HTMLDivElement>) => void;
   onDragStart: (
     event: DragEvent<HTMLDivElement>,
     slot: PlayerSlot,
     zone: ZoneKey,
     card: MatchCard
   ) => void;
+  onCardAction: CardActionHandler;
+  onCardHover: CardHoverHandler;
+  onCardMenu: CardMenuHandler;
 }
 
-function BoardZone({ config, slot, viewerSlot, player, canControl, onDrop, onDragStart }: BoardZoneProps) {
+function BoardZone({
+  config,
+  header,
+  slot,
+  player,
+  canControl,
+  onDrop,
+  onAttach,
+  onDragStart,
+  onCardAction,
+  onCardHover,
+  onCardMenu,
+}: BoardZoneProps) {
   const { label, variant, zoneKey } = config;
-  const cards = zoneKey ? player.zones[zoneKey] : [];
-  const faceDown = zoneKey === "deck" || (zoneKey === "hand" && viewerSlot !== slot);
-  const showCards = Boolean(zoneKey) && !faceDown;
-  const dropEnabled = Boolean(zoneKey) && canControl;
-  const zoneClass = [
-    styles.zone,
-    variant === "small" ? styles.zoneSmall : styles.zoneLong,
-    !zoneKey ? styles.zoneReserved : "",
-  ]
-    .filter(Boolean)
-    .join(" ");
+  const cards = player.zones[zoneKey];
+  // The server already swapped anything this viewer can't see for placeholders.
+  const faceDown = STACKED_ZONES.includes(zoneKey) && cards.some((card) => card.hidden);
+  const showCards = !faceDown;
+  const dropEnabled = canControl;
+  const zoneClass = [styles.zone, variant === "small" ? styles.zoneSmall : styles.zoneLong].join(" ");
 
   return (
     <div
@@ -436,35 +1285,35 @@ function BoardZone({ config, slot, viewerSlot, player, canControl, onDrop, onDra
         }
       }}
       onDrop={(event) => {
-        if (dropEnabled && zoneKey) {
+        if (dropEnabled) {
           onDrop(slot, zoneKey, event);
         }
       }}
     >
       <div className={styles.zoneLabel}>
         <span>{label}</span>
-        {zoneKey && <span>{cards.length}</span>}
+        <span>{cards.length}</span>
       </div>
+      {header}
       <div className={styles.zoneBody}>
-        {!zoneKey && <p className={styles.zoneHint}>Reserved</p>}
-        {zoneKey && showCards && cards.length === 0 && <p className={styles.zoneHint}>Empty</p>}
-        {zoneKey && showCards && cards.length > 0 && (
+        {showCards && cards.length === 0 && <p className={styles.zoneHint}>Empty</p>}
+        {showCards && cards.length > 0 && (
           <div className={styles.cardStack}>
             {cards.map((card) => (
-              <div
+              <BoardCard
                 key={card.uid}
-                draggable={dropEnabled}
-                onDragStart={(event) => zoneKey && onDragStart(event, slot, zoneKey, card)}
-                className={[styles.card, dropEnabled ? styles.cardDraggable : styles.cardDisabled]
-                  .filter(Boolean)
-                  .join(" ")}
-              >
-                <p>{card.name}</p>
-              </div>
+                location={{ slot, zone: zoneKey, card }}
+                canControl={dropEnabled}
+                onAttach={onAttach}
+                onDragStart={onDragStart}
+                onCardAction={onCardAction}
+                onCardHover={onCardHover}
+                onCardMenu={onCardMenu}
+              />
             ))}
           </div>
         )}
-        {zoneKey && !showCards && (
+        {!showCards && (
           <div className={styles.hiddenStack}>
             <span />
             <p>Hidden stack</p>
@@ -475,23 +1324,801 @@ function BoardZone({ config, slot, viewerSlot, player, canControl, onDrop, onDra
   );
 }
 
-function describeEvent(event: MatchEventRecord) {
+interface BoardCardProps {
+  location: CardLocation;
+  canControl: boolean;
+  onAttach: (host: CardLocation, event: DragEvent<HTMLDivElement>) => void;
+  onDragStart: (
+    event: DragEvent<HTMLDivElement>,
+    slot: PlayerSlot,
+    zone: ZoneKey,
+    card: MatchCard
+  ) => void;
+  onCardAction: CardActionHandler;
+  onCardHover: CardHoverHandler;
+  onCardMenu: CardMenuHandler;
+}
+
+function BoardCard({
+  location,
+  canControl,
+  onAttach,
+  onDragStart,
+  onCardAction,
+  onCardHover,
+  onCardMenu,
+}: BoardCardProps) {
+  const { slot, zone, card } = location;
+  const target = { slot, zone, cardUid: card.uid };
+  const hiddenFromViewer = Boolean(card.hidden);
+  const counters = Object.entries(card.counters);
+  const cardClass = [
+    styles.card,
+    canControl ? styles.cardDraggable : styles.cardDisabled,
+    card.exhausted ? styles.cardExhausted : "",
+    card.faceDown ? styles.cardFaceDown : "",
+    card.token ? styles.cardToken : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  const longPressRef = useRef<number | null>(null);
+
+  // Long-press previews only last while the finger stays down.
+  function endLongPress() {
+    if (longPressRef.current !== null) {
+      window.clearTimeout(longPressRef.current);
+      longPressRef.current = null;
+    }
+    onCardHover(null, false);
+  }
+
+  function promptCounter() {
+    const name = window.prompt("Counter name", DEFAULT_COUNTER)?.trim();
+    if (name) {
+      onCardAction("adjust-counter", { ...target, counter: name, delta: 1 });
+    }
+  }
+
+  return (
+    <div
+      draggable={canControl}
+      onDragStart={(event) => onDragStart(event, slot, zone, card)}
+      onDragOver={(event) => {
+        if (canControl) {
+          event.preventDefault();
+        }
+      }}
+      onDrop={(event) => {
+        if (canControl) {
+          onAttach(location, event);
+        }
+      }}
+      onMouseEnter={() => onCardHover(location, canControl)}
+      onMouseLeave={() => onCardHover(null, false)}
+      onTouchStart={() => {
+        longPressRef.current = window.setTimeout(() => onCardHover(location, false), LONG_PRESS_MS);
+      }}
+      onTouchEnd={endLongPress}
+      onTouchMove={endLongPress}
+      onContextMenu={(event) => {
+        if (canControl) {
+          onCardMenu(location, event);
+        }
+      }}
+      className={cardClass}
+    >
+      <p>{hiddenFromViewer ? "Face-down" : card.name}</p>
+      {card.token && <span className={styles.tokenBadge}>Token</span>}
+      {counters.length > 0 && (
+        <div className={styles.counterList}>
+          {counters.map(([name, value]) => (
+            <button
+              key={name}
+              type="button"
+              disabled={!canControl}
+              title={`Left: +1 ${name}. Shift: -1 ${name}.`}
+              onClick={(event) =>
+                onCardAction("adjust-counter", { ...target, counter: name, delta: event.shiftKey ? -1 : 1 })
+              }
+              className={styles.counterBadge}
+            >
+              {name} {value}
+            </button>
+          ))}
+        </div>
+      )}
+      {card.attachments.length > 0 && (
+        <div className={styles.attachmentList}>
+          {card.attachments.map((attachment) => (
+            <button
+              key={attachment.uid}
+              type="button"
+              disabled={!canControl}
+              title="Detach to base"
+              onClick={() =>
+                onCardAction("detach-card", {
+                  hostUid: card.uid,
+                  hostSlot: slot,
+                  hostZone: zone,
+                  cardUid: attachment.uid,
+                  toSlot: attachment.owner,
+                  toZone: "base",
+                })
+              }
+              className={styles.attachmentChip}
+            >
+              {attachment.name}
+            </button>
+          ))}
+        </div>
+      )}
+      {canControl && (
+        <div className={styles.cardTools}>
+          <button
+            type="button"
+            onClick={() => onCardAction(card.exhausted ? "ready-card" : "exhaust-card", target)}
+          >
+            {card.exhausted ? "Ready" : "Exhaust"}
+          </button>
+          <button type="button" onClick={() => onCardAction("flip-card", target)}>
+            Flip
+          </button>
+          <button type="button" onClick={promptCounter}>
+            +Ctr
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface RevealedCard {
+  uid: string;
+  name: string;
+}
+
+interface PeekOverlayProps {
+  player: PlayerState;
+  onDone: (top: string[], bottom: string[]) => void;
+}
+
+/** Private to the peeking player: reorder the cards they looked at and send some to the bottom. */
+function PeekOverlay({ player, onDone }: PeekOverlayProps) {
+  const peek = player.peek;
+  const [top, setTop] = useState<string[]>(peek?.uids ?? []);
+  const [bottom, setBottom] = useState<string[]>([]);
+  if (!peek) return null;
+
+  const cards = player.zones[peek.zone];
+  const nameOf = (uid: string) => cards.find((card) => card.uid === uid)?.name ?? "Unknown card";
+
+  function move(index: number, offset: number) {
+    const next = [...top];
+    const target = index + offset;
+    if (target < 0 || target >= next.length) return;
+    [next[index], next[target]] = [next[target], next[index]];
+    setTop(next);
+  }
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.overlayPanel}>
+        <h2>Top of your {peek.zone === "runeDeck" ? "rune deck" : "deck"}</h2>
+        <p className={styles.overlayHint}>Only you can see these. First card is the top of the deck.</p>
+        <ol className={styles.overlayList}>
+          {top.map((uid, index) => (
+            <li key={uid}>
+              <span>{nameOf(uid)}</span>
+              <button type="button" onClick={() => move(index, -1)} disabled={index === 0}>
+                Up
+              </button>
+              <button type="button" onClick={() => move(index, 1)} disabled={index === top.length - 1}>
+                Down
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setTop(top.filter((entry) => entry !== uid));
+                  setBottom([...bottom, uid]);
+                }}
+              >
+                To bottom
+              </button>
+            </li>
+          ))}
+        </ol>
+        {bottom.length > 0 && (
+          <>
+            <p className={styles.overlayHint}>Going to the bottom</p>
+            <ol className={styles.overlayList}>
+              {bottom.map((uid) => (
+                <li key={uid}>
+                  <span>{nameOf(uid)}</span>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setBottom(bottom.filter((entry) => entry !== uid));
+                      setTop([...top, uid]);
+                    }}
+                  >
+                    Keep on top
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </>
+        )}
+        <div className={styles.overlayActions}>
+          <button type="button" className={styles.primaryButton} onClick={() => onDone(top, bottom)}>
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface RevealPickerProps {
+  hand: MatchCard[];
+  onReveal: (type: "reveal" | "reveal-hand", payload: Record<string, unknown>) => void;
+  onClose: () => void;
+}
+
+function RevealPicker({ hand, onReveal, onClose }: RevealPickerProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.overlayPanel}>
+        <h2>Reveal to your opponent</h2>
+        {hand.length === 0 && <p className={styles.overlayHint}>Your hand is empty.</p>}
+        <ul className={styles.overlayList}>
+          {hand.map((card) => (
+            <li key={card.uid}>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={selected.includes(card.uid)}
+                  onChange={(event) =>
+                    setSelected(
+                      event.target.checked
+                        ? [...selected, card.uid]
+                        : selected.filter((uid) => uid !== card.uid)
+                    )
+                  }
+                />
+                {card.name}
+              </label>
+            </li>
+          ))}
+        </ul>
+        <div className={styles.overlayActions}>
+          <button
+            type="button"
+            className={styles.primaryButton}
+            disabled={selected.length === 0}
+            onClick={() => onReveal("reveal", { cardUids: selected })}
+          >
+            Reveal selected
+          </button>
+          <button
+            type="button"
+            className={styles.secondaryButton}
+            disabled={hand.length === 0}
+            onClick={() => onReveal("reveal-hand", {})}
+          >
+            Reveal hand
+          </button>
+          <button
+            type="button"
+            className={styles.secondaryButton}
+            onClick={() => onReveal("reveal", { zone: "deck", count: 1 })}
+          >
+            Reveal top of deck
+          </button>
+          <button type="button" className={styles.secondaryButton} onClick={onClose}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface MulliganPanelProps {
+  hand: MatchCard[];
+  onLockIn: (cardUids: string[]) => void;
+  onClose: () => void;
+}
+
+function MulliganPanel({ hand, onLockIn, onClose }: MulliganPanelProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.overlayPanel}>
+        <h2>Opening hand</h2>
+        <p className={styles.overlayHint}>
+          Pick up to {MAX_MULLIGAN_CARDS} cards to put on the bottom of your deck. You draw the same
+          number back. Your opponent only sees your choice once you both lock in.
+        </p>
+        <ul className={styles.overlayList}>
+          {hand.map((card) => (
+            <li key={card.uid}>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={selected.includes(card.uid)}
+                  disabled={!selected.includes(card.uid) && selected.length >= MAX_MULLIGAN_CARDS}
+                  onChange={(event) =>
+                    setSelected(
+                      event.target.checked
+                        ? [...selected, card.uid]
+                        : selected.filter((uid) => uid !== card.uid)
+                    )
+                  }
+                />
+                {card.name}
+              </label>
+            </li>
+          ))}
+        </ul>
+        <div className={styles.overlayActions}>
+          <button type="button" className={styles.primaryButton} onClick={() => onLockIn(selected)}>
+            {selected.length === 0 ? "Keep hand" : `Recycle ${selected.length} and lock in`}
+          </button>
+          <button type="button" className={styles.secondaryButton} onClick={onClose}>
+            Look at the board
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface SideboardPanelProps {
+  decklist: DeckCardEntry[];
+  choosesFirst: boolean;
+  viewerSlot: PlayerSlot;
+  onLockIn: (swaps: SideboardSwap[], firstPlayer: PlayerSlot | null) => void;
+}
+
+/** Between games: trade main-deck cards for side-deck cards one for one. The server re-checks the list. */
+function SideboardPanel({ decklist, choosesFirst, viewerSlot, onLockIn }: SideboardPanelProps) {
+  const [swaps, setSwaps] = useState<SideboardSwap[]>([]);
+  const [outId, setOutId] = useState("");
+  const [inId, setInId] = useState("");
+  const [firstPlayer, setFirstPlayer] = useState<PlayerSlot>(viewerSlot);
+
+  // Copies still available to swap once the pending swaps are taken out.
+  function remaining(entry: DeckCardEntry) {
+    const used = swaps.filter((swap) =>
+      entry.section === "main" ? swap.out === entry.cardId : swap.in === entry.cardId
+    ).length;
+    return entry.quantity - used;
+  }
+
+  const main = decklist.filter((entry) => entry.section === "main" && remaining(entry) > 0);
+  const side = decklist.filter((entry) => entry.section === "side" && remaining(entry) > 0);
+  const nameOf = (cardId: string) => decklist.find((entry) => entry.cardId === cardId)?.cardName ?? cardId;
+
+  function addSwap() {
+    if (!outId || !inId) return;
+    setSwaps([...swaps, { out: outId, in: inId }]);
+    setOutId("");
+    setInId("");
+  }
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.overlayPanel}>
+        <h2>Sideboarding</h2>
+        <p className={styles.overlayHint}>
+          Swap up to {MAX_SIDEBOARD_SWAPS} main-deck cards for side-deck cards, one for one. Your
+          opponent does not see your changes.
+        </p>
+        {side.length === 0 && swaps.length === 0 ? (
+          <p className={styles.overlayHint}>Your deck has no side-deck cards to bring in.</p>
+        ) : (
+          <div className={styles.overlayActions}>
+            <select value={outId} onChange={(event) => setOutId(event.target.value)}>
+              <option value="">Take out…</option>
+              {main.map((entry) => (
+                <option key={entry.cardId} value={entry.cardId}>
+                  {entry.cardName} ({remaining(entry)})
+                </option>
+              ))}
+            </select>
+            <select value={inId} onChange={(event) => setInId(event.target.value)}>
+              <option value="">Bring in…</option>
+              {side.map((entry) => (
+                <option key={entry.cardId} value={entry.cardId}>
+                  {entry.cardName} ({remaining(entry)})
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className={styles.secondaryButton}
+              disabled={!outId || !inId || swaps.length >= MAX_SIDEBOARD_SWAPS}
+              onClick={addSwap}
+            >
+              Add swap
+            </button>
+          </div>
+        )}
+        {swaps.length > 0 && (
+          <ul className={styles.overlayList}>
+            {swaps.map((swap, index) => (
+              <li key={`${swap.out}-${swap.in}-${index}`}>
+                <span>
+                  {nameOf(swap.out)} → {nameOf(swap.in)}
+                </span>
+                <button
+                  type="button"
+                  className={styles.secondaryButton}
+                  onClick={() => setSwaps(swaps.filter((_, position) => position !== index))}
+                >
+                  Undo
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {choosesFirst && (
+          <label className={styles.overlayHint}>
+            You lost the last game, so you choose who plays first:{" "}
+            <select value={firstPlayer} onChange={(event) => setFirstPlayer(event.target.value as PlayerSlot)}>
+              <option value={viewerSlot}>Me</option>
+              <option value={viewerSlot === "p1" ? "p2" : "p1"}>My opponent</option>
+            </select>
+          </label>
+        )}
+        <div className={styles.overlayActions}>
+          <button
+            type="button"
+            className={styles.primaryButton}
+            onClick={() => onLockIn(swaps, choosesFirst ? firstPlayer : null)}
+          >
+            {swaps.length === 0 ? "Keep deck and lock in" : `Lock in ${swaps.length} swap(s)`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface CardContextMenuProps {
+  menu: CardMenuState;
+  viewerSlot: PlayerSlot;
+  onCardAction: CardActionHandler;
+  onMove: (location: CardLocation, toSlot: PlayerSlot, toZone: ZoneKey, position: "top" | "bottom") => void;
+  onClose: () => void;
+}
+
+function CardContextMenu({ menu, viewerSlot, onCardAction, onMove, onClose }: CardContextMenuProps) {
+  const { location } = menu;
+  const { card } = location;
+  const target = { slot: location.slot, zone: location.zone, cardUid: card.uid };
+  const opponentSlot: PlayerSlot = viewerSlot === "p1" ? "p2" : "p1";
+  // Battlefields are shared ground, so the opponent's side is a legal destination too.
+  const destinations = [
+    ...MENU_ZONES.map((zone) => ({ slot: viewerSlot, zone })),
+    ...BATTLEFIELD_KEYS.map((zone) => ({ slot: opponentSlot, zone })),
+  ].filter(({ slot, zone }) => slot !== location.slot || zone !== location.zone);
+
+  function run(action: () => void) {
+    onClose();
+    action();
+  }
+
+  return (
+    <div
+      className={styles.contextBackdrop}
+      onClick={onClose}
+      onContextMenu={(event) => {
+        event.preventDefault();
+        onClose();
+      }}
+    >
+      <div
+        className={styles.contextMenu}
+        style={{ left: menu.x, top: menu.y }}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <p className={styles.contextTitle}>
+          {card.hidden ? "Face-down card" : card.name}
+          {card.token && " (token)"}
+        </p>
+        <button
+          type="button"
+          onClick={() => run(() => onCardAction(card.exhausted ? "ready-card" : "exhaust-card", target))}
+        >
+          {card.exhausted ? "Ready" : "Exhaust"}
+        </button>
+        <button type="button" onClick={() => run(() => onCardAction("flip-card", target))}>
+          Flip
+        </button>
+        <button type="button" onClick={() => run(() => onCardAction("chain-add", target))}>
+          Add to chain
+        </button>
+        <p className={styles.contextTitle}>Move to</p>
+        <ul>
+          {destinations.map(({ slot, zone }) => (
+            <li key={`${slot}-${zone}`}>
+              <span>
+                {slot === viewerSlot ? "" : "Opponent's "}
+                {ZONE_LABELS[zone]}
+              </span>
+              <button type="button" onClick={() => run(() => onMove(location, slot, zone, "top"))}>
+                Top
+              </button>
+              <button type="button" onClick={() => run(() => onMove(location, slot, zone, "bottom"))}>
+                Bottom
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+function HotkeyHelp({ onClose }: { onClose: () => void }) {
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.overlayPanel}>
+        <h2>Keyboard shortcuts</h2>
+        <p className={styles.overlayHint}>Card shortcuts act on the card under your mouse pointer.</p>
+        <ul className={styles.overlayList}>
+          {HOTKEYS.map((hotkey) => (
+            <li key={hotkey.keys}>
+              <kbd className={styles.hotkey}>{hotkey.keys}</kbd>
+              <span>{hotkey.description}</span>
+            </li>
+          ))}
+        </ul>
+        <div className={styles.overlayActions}>
+          <button type="button" className={styles.secondaryButton} onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface TokenPickerProps {
+  onCreate: (token: TokenDefinition, zone: ZoneKey, count: number) => void;
+  onClose: () => void;
+}
+
+function TokenPicker({ onCreate, onClose }: TokenPickerProps) {
+  const [tokens, setTokens] = useState<TokenDefinition[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [zone, setZone] = useState<ZoneKey>("base");
+  const [count, setCount] = useState(1);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadTokens() {
+      const response = await fetch("/api/cards/tokens");
+      const body = await response.json().catch(() => ({}));
+      if (cancelled) return;
+      if (!response.ok) {
+        setLoadError(body.error ?? "Unable to load tokens");
+        return;
+      }
+      setTokens((body.tokens ?? []) as TokenDefinition[]);
+    }
+
+    loadTokens();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.overlayPanel}>
+        <h2>Create a token</h2>
+        <div className={styles.overlayActions}>
+          <label className={styles.replayOption}>
+            Into
+            <select value={zone} onChange={(event) => setZone(event.target.value as ZoneKey)}>
+              {TOKEN_ZONES.map((option) => (
+                <option key={option} value={option}>
+                  {ZONE_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.replayOption}>
+            How many
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={count}
+              onChange={(event) => setCount(Math.max(1, Number(event.target.value) || 1))}
+            />
+          </label>
+        </div>
+        {!tokens && !loadError && <p className={styles.overlayHint}>Loading tokens…</p>}
+        {loadError && <p className={styles.overlayHint}>{loadError}</p>}
+        {tokens?.length === 0 && <p className={styles.overlayHint}>The catalog has no tokens yet.</p>}
+        <ul className={styles.overlayList}>
+          {tokens?.map((token) => (
+            <li key={token.cardId ?? token.name}>
+              <span>{token.name}</span>
+              <button type="button" onClick={() => onCreate(token, zone, count)}>
+                Create
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className={styles.overlayActions}>
+          <button type="button" className={styles.secondaryButton} onClick={onClose}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function RevealOverlay({ event, onClose }: { event: MatchEventRecord; onClose: () => void }) {
+  const cards = (event.payload?.cards ?? []) as RevealedCard[];
+
+  return (
+    <div className={styles.overlay}>
+      <div className={styles.overlayPanel}>
+        <h2>{describeEvent(event)}</h2>
+        <ul className={styles.overlayList}>
+          {cards.map((card) => (
+            <li key={card.uid}>{card.name}</li>
+          ))}
+        </ul>
+        <div className={styles.overlayActions}>
+          <button type="button" className={styles.primaryButton} onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function describeEvent(event: MatchEventRecord) {
   const payload = event.payload ?? {};
   switch (event.type) {
     case "draw-card":
       return `Player ${payload.player ?? "?"} drew ${Number(payload.count ?? 1)}`;
-    case "shuffle-deck":
-      return `Player ${payload.player ?? "?"} shuffled their deck`;
+    case "shuffle-deck": {
+      const deck = payload.zone === "runeDeck" ? "rune deck" : "deck";
+      return `Player ${payload.player ?? "?"} shuffled their ${deck}${formatCommitment(payload.shuffle)}`;
+    }
+    case "channel-runes":
+      return `Player ${payload.player ?? "?"} channeled ${Number(payload.count ?? 1)} rune(s)`;
     case "move-card":
-      return `Moved card ${payload.cardUid} from ${formatZone(payload.from)} to ${formatZone(payload.to)}`;
-    case "mulligan":
-      return `Player ${payload.player ?? "?"} mulliganed their hand`;
-    case "life-change": {
+      return payload.tokenRemoved
+        ? `Token ${payload.cardUid} left play from ${formatZone(payload.from)} and was removed`
+        : `Moved card ${payload.cardUid} from ${formatZone(payload.from)} to ${formatZone(payload.to)}`;
+    case "exhaust-card":
+      return `Player ${payload.actor ?? "?"} exhausted ${formatCardName(payload.cardName)}`;
+    case "ready-card":
+      return `Player ${payload.actor ?? "?"} readied ${formatCardName(payload.cardName)}`;
+    case "flip-card":
+      return payload.faceDown
+        ? `Player ${payload.actor ?? "?"} turned a card face-down`
+        : `Player ${payload.actor ?? "?"} turned ${formatCardName(payload.cardName)} face-up`;
+    case "adjust-counter": {
       const delta = Number(payload.delta ?? 0);
-      return `Player ${payload.player ?? "?"} ${delta >= 0 ? "gained" : "lost"} ${Math.abs(delta)} life`;
+      const change = `${delta >= 0 ? "added" : "removed"} ${Math.abs(delta)} ${payload.counter}`;
+      return `Player ${payload.actor ?? "?"} ${change} on ${formatCardName(payload.cardName)} (now ${Number(payload.total ?? 0)})`;
+    }
+    case "attach-card":
+      return `Player ${payload.actor ?? "?"} attached ${formatCardName(payload.cardName)} to ${formatCardName(payload.hostName)}`;
+    case "detach-card":
+      return payload.tokenRemoved
+        ? `Player ${payload.actor ?? "?"} detached ${formatCardName(payload.cardName)}, removing the token`
+        : `Player ${payload.actor ?? "?"} detached ${formatCardName(payload.cardName)} to ${formatZone(payload.to)}`;
+    case "create-token": {
+      const count = Array.isArray(payload.cardUids) ? payload.cardUids.length : 1;
+      return `Player ${payload.player ?? "?"} created ${count} ${payload.tokenName ?? "token"} token(s) in ${
+        ZONE_LABELS[payload.zone as ZoneKey] ?? "play"
+      }`;
     }
-    case "end-turn":
-      return `Turn passed to ${payload.turn}`;
+    case "peek":
+      return `Player ${payload.player ?? "?"} looked at the top ${Number(payload.count ?? 1)} card(s) of their ${
+        payload.zone === "runeDeck" ? "rune deck" : "deck"
+      }`;
+    case "reorder-top":
+      return `Player ${payload.player ?? "?"} put ${Number(payload.topCount ?? 0)} back on top and ${Number(
+        payload.bottomCount ?? 0
+      )} on the bottom`;
+    case "reveal":
+    case "reveal-hand": {
+      const names = ((payload.cards ?? []) as RevealedCard[]).map((card) => card.name).join(", ");
+      const source =
+        event.type === "reveal-hand"
+          ? "their hand"
+          : payload.zone === "deck"
+            ? "the top of their deck"
+            : "from their hand";
+      return `Player ${payload.player ?? "?"} revealed ${source}: ${names}`;
+    }
+    case "chain-add": {
+      const item = (payload.item ?? {}) as { label?: string };
+      return `Player ${payload.player ?? "?"} ${payload.responding ? "responded with" : "started a chain with"} ${
+        item.label ?? "something"
+      }`;
+    }
+    case "chain-pass": {
+      const resolved = (payload.resolved ?? {}) as { label?: string };
+      const rest =
+        Number(payload.remaining ?? 0) > 0 ? `, ${payload.remaining} left on the chain` : ", chain closed";
+      return `Player ${payload.player ?? "?"} passed; ${resolved.label ?? "the top item"} resolves${rest}`;
+    }
+    case "lock-mulligan":
+      return `Player ${payload.player ?? "?"} locked in their opening hand`;
+    case "opening_complete": {
+      const recycled = (payload.recycled ?? {}) as Partial<Record<PlayerSlot, number>>;
+      return `Opening hands set: P1 recycled ${recycled.p1 ?? 0}, P2 recycled ${recycled.p2 ?? 0}`;
+    }
+    case "score-points": {
+      const delta = Number(payload.delta ?? 0);
+      const change = `${delta >= 0 ? "scored" : "lost"} ${Math.abs(delta)} point(s)`;
+      return `Player ${payload.player ?? "?"} ${change} (now ${Number(payload.points ?? 0)})`;
+    }
+    case "conquer-battlefield":
+      return `Player ${payload.player ?? "?"} conquered ${payload.battlefieldName ?? "a battlefield"} (now ${Number(payload.points ?? 0)})`;
+    case "hold-battlefield":
+      return `Player ${payload.player ?? "?"} held ${payload.battlefieldName ?? "a battlefield"} (now ${Number(payload.points ?? 0)})`;
+    case "match_ended":
+      // Games before the set is decided carry no set winner.
+      return payload.game && !payload.setWinner
+        ? `Player ${payload.winner ?? "?"} won game ${payload.game}; shuffle seed revealed`
+        : `Player ${payload.winner ?? "?"} won the match; shuffle seed revealed`;
+    case "spectators_opened":
+      return "The host opened the match to spectators";
+    case "spectators_closed":
+      return "The host closed the match to spectators";
+    case "spectator_kicked":
+      return `The host removed ${payload.name ?? "a spectator"}`;
+    case "sideboard_locked":
+      return `Player ${payload.actor ?? "?"} locked in their sideboarding`;
+    case "game_started":
+      return `Game ${payload.game ?? "?"} started with Player ${payload.firstPlayer ?? "?"} going first`;
+    case "next-phase":
+    case "end-turn": {
+      const phase = PHASE_LABELS[payload.phase as MatchPhase] ?? String(payload.phase ?? "next");
+      const steps = [
+        Number(payload.readied) > 0 ? `readied ${payload.readied}` : null,
+        Number(payload.channeled) > 0 ? `channeled ${payload.channeled}` : null,
+        Number(payload.drew) > 0 ? `drew ${payload.drew}` : null,
+      ].filter(Boolean);
+      const prefix =
+        event.type === "end-turn" ? `Turn ${payload.turnNumber ?? "?"} to Player ${payload.turn}: ` : "";
+      return `${prefix}${phase} phase${steps.length ? ` (${steps.join(", ")})` : ""}`;
+    }
+    case "set-first-player":
+      return `Player ${payload.player ?? "?"} will go first`;
+    case "set-auto-steps": {
+      const steps = (payload.autoSteps ?? {}) as Partial<AutoStepSettings>;
+      const ready = steps.readyOnAwaken ? "ready on awaken" : "no auto-ready";
+      return `Auto steps set: ${ready}, channel ${steps.channelRunes ?? 0}, draw ${steps.drawCards ?? 0}`;
+    }
+    case "undo_requested":
+      return `Player ${payload.actor ?? "?"} asked to roll back to before #${payload.eventId} (${payload.eventType})`;
+    case "undo_declined":
+      return payload.withdrawn
+        ? `Player ${payload.actor ?? "?"} withdrew their undo request`
+        : `Player ${payload.actor ?? "?"} declined the undo request`;
+    case "undo_applied":
+      return `Rolled back to before #${payload.eventId} (${payload.eventType})`;
     case "match_created":
       return "Match created";
     case "player_joined":
@@ -501,8 +2128,19 @@ function describeEvent(event: MatchEventRecord) {
   }
 }
 
+// Short form of a shuffle commitment so players can match log lines against the audit.
+function formatCommitment(shuffle: unknown) {
+  const commitment = (shuffle as { commitment?: unknown } | undefined)?.commitment;
+  return typeof commitment === "string" ? ` (commit ${commitment.slice(0, 8)})` : "";
+}
+
+function formatCardName(name: unknown): string {
+  return typeof name === "string" && name ? name : "a face-down card";
+}
+
 function formatZone(zone: unknown): string {
   if (!zone || typeof zone !== "object") return "unknown";
   const value = zone as { slot?: string; zone?: string };
-  return `${value.slot ?? "?"} ${value.zone ?? "zone"}`;
+  const label = value.zone && value.zone in ZONE_LABELS ? ZONE_LABELS[value.zone as ZoneKey] : value.zone;
+  return `${value.slot ?? "?"} ${label ?? "zone"}`;
 }
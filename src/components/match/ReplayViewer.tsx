@@ -0,0 +1,235 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { PlayerMat, describeEvent } from "@/src/components/match/MatchRoom";
+import type { MatchEventRecord, MatchState, MatchSummary, PlayerSlot } from "@/src/types/match";
+import styles from "./MatchRoom.module.css";
+
+interface ReplayViewerProps {
+  match: MatchSummary;
+  viewerSlot: PlayerSlot | null;
+}
+
+interface ReplayFrame {
+  version: number;
+  events: MatchEventRecord[];
+  state: MatchState;
+}
+
+interface ShuffleAudit {
+  seed: string;
+  seedMatches: boolean;
+  shuffles: { eventId: number; index: number; verified: boolean }[];
+}
+
+interface ReplayResponse {
+  ended: boolean;
+  revealed: boolean;
+  complete: boolean;
+  audit: ShuffleAudit | null;
+  frames: ReplayFrame[];
+}
+
+const AUTOPLAY_SPEEDS = [0.5, 1, 2, 4];
+const AUTOPLAY_BASE_MS = 1200;
+
+function noop() {}
+
+export default function ReplayViewer({ match, viewerSlot }: ReplayViewerProps) {
+  const router = useRouter();
+  const [replay, setReplay] = useState<ReplayResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [reveal, setReveal] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadReplay() {
+      setError(null);
+      const response = await fetch(`/api/match/${match.code}/replay${reveal ? "?reveal=1" : ""}`, {
+        cache: "no-store",
+      });
+      const body = await response.json().catch(() => ({}));
+      if (cancelled) return;
+      if (!response.ok) {
+        setError(body.error ?? "Unable to load replay");
+        return;
+      }
+      setReplay(body as ReplayResponse);
+    }
+
+    loadReplay();
+    return () => {
+      cancelled = true;
+    };
+  }, [match.code, reveal]);
+
+  const frameCount = replay?.frames.length ?? 0;
+  const lastIndex = Math.max(0, frameCount - 1);
+  const currentIndex = Math.min(frameIndex, lastIndex);
+
+  useEffect(() => {
+    if (!playing) return;
+    const timer = window.setTimeout(() => {
+      const next = Math.min(currentIndex + 1, lastIndex);
+      setFrameIndex(next);
+      if (next >= lastIndex) {
+        setPlaying(false);
+      }
+    }, AUTOPLAY_BASE_MS / speed);
+    return () => window.clearTimeout(timer);
+  }, [playing, currentIndex, lastIndex, speed]);
+
+  const frame = replay?.frames[currentIndex];
+  const bottomSlot: PlayerSlot = viewerSlot ?? "p1";
+  const topSlot: PlayerSlot = bottomSlot === "p1" ? "p2" : "p1";
+
+  function renderMat(slot: PlayerSlot, variant: "top" | "bottom", state: MatchState) {
+    return (
+      <PlayerMat
+        variant={variant}
+        slot={slot}
+        viewerSlot={viewerSlot}
+        player={state.players[slot]}
+        canControl={false}
+        onDraw={noop}
+        onShuffle={noop}
+        onChannel={noop}
+        onPeek={noop}
+        onReveal={noop}
+        onToken={noop}
+        victoryTarget={state.victoryTarget}
+        onScore={noop}
+        onDrop={noop}
+        onAttach={noop}
+        onDragStart={noop}
+        onCardAction={noop}
+        onCardHover={noop}
+        onCardMenu={noop}
+      />
+    );
+  }
+
+  return (
+    <main className={`${styles.page} ${styles.replayPage}`}>
+      <header className={styles.matchHeader}>
+        <div className={styles.headerButtons}>
+          <button onClick={() => router.push(`/match/${match.code}`)} className={styles.secondaryButton}>
+            Back to Match
+          </button>
+        </div>
+      </header>
+
+      <section className={styles.replayControls}>
+        <div className={styles.headerButtons}>
+          <button
+            type="button"
+            className={styles.secondaryButton}
+            disabled={currentIndex === 0}
+            onClick={() => {
+              setPlaying(false);
+              setFrameIndex(currentIndex - 1);
+            }}
+          >
+            Back
+          </button>
+          <button
+            type="button"
+            className={styles.primaryButton}
+            disabled={frameCount < 2}
+            onClick={() => {
+              if (!playing && currentIndex >= lastIndex) {
+                setFrameIndex(0);
+              }
+              setPlaying((prev) => !prev);
+            }}
+          >
+            {playing ? "Pause" : "Play"}
+          </button>
+          <button
+            type="button"
+            className={styles.secondaryButton}
+            disabled={currentIndex >= lastIndex}
+            onClick={() => {
+              setPlaying(false);
+              setFrameIndex(currentIndex + 1);
+            }}
+          >
+            Forward
+          </button>
+          <label className={styles.replayOption}>
+            Speed
+            <select value={speed} onChange={(event) => setSpeed(Number(event.target.value))}>
+              {AUTOPLAY_SPEEDS.map((option) => (
+                <option key={option} value={option}>
+                  {option}x
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.replayOption}>
+            <input
+              type="checkbox"
+              checked={reveal}
+              disabled={!replay?.ended}
+              onChange={(event) => setReveal(event.target.checked)}
+            />
+            Reveal hidden zones
+          </label>
+        </div>
+        <input
+          type="range"
+          className={styles.replayScrubber}
+          min={0}
+          max={lastIndex}
+          value={currentIndex}
+          disabled={frameCount < 2}
+          onChange={(event) => {
+            setPlaying(false);
+            setFrameIndex(Number(event.target.value));
+          }}
+        />
+        <p className={styles.replayStep}>
+          Step {currentIndex} / {lastIndex}
+          {!replay?.ended && " · Hidden zones can be revealed once the match, or the whole set, is decided"}
+        </p>
+        {frame && (
+          <ul className={styles.replayEvents}>
+            {frame.events.length === 0 && <li>Opening state</li>}
+            {frame.events.map((event) => (
+              <li key={event.id}>{describeEvent(event)}</li>
+            ))}
+          </ul>
+        )}
+        {replay?.audit && (
+          <p className={styles.replayStep}>
+            Shuffle seed {replay.audit.seed.slice(0, 16)}… {replay.audit.seedMatches ? "matches" : "does not match"}{" "}
+            its opening commitment ·{" "}
+            {replay.audit.shuffles.filter((shuffle) => shuffle.verified).length} /{" "}
+            {replay.audit.shuffles.length} shuffle commitments verified
+          </p>
+        )}
+        {replay && !replay.complete && (
+          <p className={styles.errorBanner}>
+            Some events could not be re-applied, so the replay stops early.
+          </p>
+        )}
+        {error && <p className={styles.errorBanner}>{error}</p>}
+      </section>
+
+      {frame && (
+        <section className={styles.boardShell}>
+          <div className={styles.board}>
+            {renderMat(topSlot, "top", frame.state)}
+            <div className={styles.centerField}>RIFTBOUND ARENA</div>
+            {renderMat(bottomSlot, "bottom", frame.state)}
+          </div>
+        </section>
+      )}
+    </main>
+  );
+}
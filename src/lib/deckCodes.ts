@@ -0,0 +1,184 @@
+import {
+  MAX_DECKLIST_LINES,
+  resolveDecklistLines,
+  type DecklistImportResult,
+} from "@/src/lib/decklistText";
+import type { RiftCard } from "@/src/types/card";
+import type { DeckCardEntry, DeckSection } from "@/src/types/deck";
+
+/**
+ * Deck share codes pack a card list into URL-safe base64. Cards are stored by public code rather
+ * than by position in the catalog, so codes keep decoding as new sets are added; the leading
+ * version byte lets the layout change without breaking codes already shared.
+ *
+ * Version 1 layout: version, the distinct set prefixes (the part of a public code before its
+ * first "-"), then for each section in `SECTION_ORDER` an entry count followed by
+ * `quantity, prefix index, remainder` per card.
+ */
+const DECK_CODE_VERSION = 1;
+
+const SECTION_ORDER: DeckSection[] = ["legend", "main", "runes", "battlefields", "side"];
+
+const MAX_QUANTITY = 255;
+
+// Every entry becomes a catalog lookup, so codes are held to the same size as a pasted list.
+const TOO_MANY_ENTRIES = `Deck codes can hold at most ${MAX_DECKLIST_LINES} cards`;
+
+export interface DeckCodeEntry {
+  publicCode: string;
+  quantity: number;
+  section: DeckSection;
+}
+
+interface ByteCursor {
+  bytes: Uint8Array;
+  offset: number;
+}
+
+function writeVarint(bytes: number[], value: number) {
+  let remaining = value;
+  while (remaining >= 0x80) {
+    bytes.push((remaining & 0x7f) | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  bytes.push(remaining);
+}
+
+function writeText(bytes: number[], value: string) {
+  const encoded = new TextEncoder().encode(value);
+  writeVarint(bytes, encoded.length);
+  encoded.forEach((byte) => bytes.push(byte));
+}
+
+function readVarint(cursor: ByteCursor) {
+  let value = 0;
+  let scale = 1;
+  for (;;) {
+    if (cursor.offset >= cursor.bytes.length) throw new Error("Deck code ends early");
+    const byte = cursor.bytes[cursor.offset];
+    cursor.offset += 1;
+    value += (byte & 0x7f) * scale;
+    if (byte < 0x80) return value;
+    scale *= 0x80;
+  }
+}
+
+function readText(cursor: ByteCursor) {
+  const length = readVarint(cursor);
+  const end = cursor.offset + length;
+  if (end > cursor.bytes.length) throw new Error("Deck code ends early");
+  const value = new TextDecoder().decode(cursor.bytes.subarray(cursor.offset, end));
+  cursor.offset = end;
+  return value;
+}
+
+function splitPublicCode(publicCode: string): [string, string] {
+  const dash = publicCode.indexOf("-");
+  return dash === -1 ? ["", publicCode] : [publicCode.slice(0, dash), publicCode.slice(dash + 1)];
+}
+
+/** Encodes a deck's cards. Every card needs a public code, since that is what the code stores. */
+export function encodeDeckCode(
+  cards: Pick<DeckCardEntry, "cardName" | "cardPublicCode" | "quantity" | "section">[]
+): { code: string } | { error: string } {
+  const missing = cards.filter((card) => !card.cardPublicCode);
+  if (missing.length > 0) {
+    const names = missing.map((card) => card.cardName).join(", ");
+    return { error: `These cards have no public code: ${names}` };
+  }
+  if (cards.length > MAX_DECKLIST_LINES) {
+    return { error: TOO_MANY_ENTRIES };
+  }
+  if (cards.some((card) => card.quantity < 1 || card.quantity > MAX_QUANTITY)) {
+    return { error: "Card quantities must be between 1 and 255" };
+  }
+
+  const prefixes = Array.from(
+    new Set(cards.map((card) => splitPublicCode(card.cardPublicCode ?? "")[0]))
+  );
+  const bytes: number[] = [];
+  writeVarint(bytes, DECK_CODE_VERSION);
+  writeVarint(bytes, prefixes.length);
+  prefixes.forEach((prefix) => writeText(bytes, prefix));
+
+  SECTION_ORDER.forEach((section) => {
+    const entries = cards.filter((card) => card.section === section);
+    writeVarint(bytes, entries.length);
+    entries.forEach((card) => {
+      const [prefix, remainder] = splitPublicCode(card.cardPublicCode ?? "");
+      writeVarint(bytes, card.quantity);
+      writeVarint(bytes, prefixes.indexOf(prefix));
+      writeText(bytes, remainder);
+    });
+  });
+
+  const base64 = btoa(String.fromCharCode(...bytes));
+  return { code: base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "") };
+}
+
+function decodeVersion1(cursor: ByteCursor): DeckCodeEntry[] {
+  const prefixCount = readVarint(cursor);
+  if (prefixCount > MAX_DECKLIST_LINES) throw new Error(TOO_MANY_ENTRIES);
+  const prefixes = Array.from({ length: prefixCount }, () => readText(cursor));
+
+  const entries: DeckCodeEntry[] = [];
+  SECTION_ORDER.forEach((section) => {
+    const count = readVarint(cursor);
+    if (entries.length + count > MAX_DECKLIST_LINES) throw new Error(TOO_MANY_ENTRIES);
+    for (let index = 0; index < count; index += 1) {
+      const quantity = readVarint(cursor);
+      const prefix = prefixes[readVarint(cursor)];
+      const remainder = readText(cursor);
+      if (prefix === undefined || quantity < 1) throw new Error("Deck code is corrupted");
+      entries.push({ publicCode: prefix ? `${prefix}-${remainder}` : remainder, quantity, section });
+    }
+  });
+  return entries;
+}
+
+/** Reads a share code back into public codes, quantities and sections. */
+export function decodeDeckCode(code: string): { entries: DeckCodeEntry[] } | { error: string } {
+  const normalized = code.trim().replace(/-/g, "+").replace(/_/g, "/");
+  if (!normalized || !/^[A-Za-z0-9+/]+$/.test(normalized)) {
+    return { error: "That is not a deck code" };
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = Uint8Array.from(atob(normalized), (char) => char.charCodeAt(0));
+  } catch {
+    return { error: "That is not a deck code" };
+  }
+
+  try {
+    const cursor: ByteCursor = { bytes, offset: 0 };
+    const version = readVarint(cursor);
+    if (version === 1) {
+      return { entries: decodeVersion1(cursor) };
+    }
+    return { error: `Deck code version ${version} is not supported` };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Deck code is corrupted" };
+  }
+}
+
+/** Decodes a share code and resolves its cards the same way a pasted decklist is resolved. */
+export async function resolveDeckCode(
+  code: string,
+  searchCards: (query: string) => Promise<RiftCard[]>,
+  name?: string
+): Promise<DecklistImportResult | { error: string }> {
+  const decoded = decodeDeckCode(code);
+  if ("error" in decoded) {
+    return decoded;
+  }
+
+  const lines = decoded.entries.map((entry, index) => ({
+    lineNumber: index + 1,
+    text: `${entry.quantity} ${entry.publicCode}`,
+    quantity: entry.quantity,
+    query: entry.publicCode,
+    section: entry.section,
+  }));
+  return resolveDecklistLines(lines, searchCards, name);
+}
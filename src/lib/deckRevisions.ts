@@ -0,0 +1,92 @@
+import type { DeckCardEntry, DeckRevision, DeckSection } from "@/src/types/deck";
+
+export const DECK_REVISION_SELECT = "id, deck_id, revision, note, cards, created_at";
+
+/** How many revisions the history panel loads, newest first. */
+export const MAX_REVISIONS_LISTED = 50;
+
+const MAX_NOTE_LENGTH = 200;
+
+const SECTION_ORDER: DeckSection[] = ["legend", "main", "runes", "battlefields", "side"];
+
+export interface DeckDiffEntry {
+  cardId: string;
+  cardName: string;
+  quantity: number;
+}
+
+export interface DeckSectionDiff {
+  section: DeckSection;
+  added: DeckDiffEntry[];
+  removed: DeckDiffEntry[];
+}
+
+interface DeckRevisionRow {
+  id: string;
+  deck_id: string;
+  revision: number;
+  note: string | null;
+  cards: unknown;
+  created_at: string;
+}
+
+export function mapRevisionRow(row: DeckRevisionRow): DeckRevision {
+  return {
+    id: row.id,
+    deckId: row.deck_id,
+    revision: row.revision,
+    note: row.note,
+    createdAt: row.created_at,
+    cards: Array.isArray(row.cards) ? (row.cards as DeckCardEntry[]) : [],
+  };
+}
+
+/** Trims a save note from a request body; anything that isn't text counts as no note. */
+export function normalizeRevisionNote(note: unknown) {
+  return typeof note === "string" && note.trim() ? note.trim().slice(0, MAX_NOTE_LENGTH) : null;
+}
+
+function totalsBySection(cards: DeckCardEntry[]) {
+  const totals = new Map<string, DeckDiffEntry & { section: DeckSection }>();
+  cards.forEach((card) => {
+    const key = `${card.section}|${card.cardId}`;
+    const existing = totals.get(key);
+    if (existing) {
+      existing.quantity += card.quantity;
+      return;
+    }
+    totals.set(key, {
+      section: card.section,
+      cardId: card.cardId,
+      cardName: card.cardName,
+      quantity: card.quantity,
+    });
+  });
+  return totals;
+}
+
+/**
+ * Compares two card lists section by section: `added` holds the copies `to` has beyond `from`,
+ * `removed` the copies it lost. Sections without changes are left out.
+ */
+export function diffDeckRevisions(from: DeckCardEntry[], to: DeckCardEntry[]): DeckSectionDiff[] {
+  const before = totalsBySection(from);
+  const after = totalsBySection(to);
+  const keys = new Set([...before.keys(), ...after.keys()]);
+
+  return SECTION_ORDER.map((section) => {
+    const diff: DeckSectionDiff = { section, added: [], removed: [] };
+    keys.forEach((key) => {
+      const previous = before.get(key);
+      const next = after.get(key);
+      const entry = next ?? previous;
+      if (!entry || entry.section !== section) return;
+
+      const change = (next?.quantity ?? 0) - (previous?.quantity ?? 0);
+      const { cardId, cardName } = entry;
+      if (change > 0) diff.added.push({ cardId, cardName, quantity: change });
+      if (change < 0) diff.removed.push({ cardId, cardName, quantity: -change });
+    });
+    return diff;
+  }).filter((diff) => diff.added.length > 0 || diff.removed.length > 0);
+}
@@ -0,0 +1,235 @@
+import type { DeckPayload, DeckPayloadCard } from "@/src/lib/decks";
+import type { RiftCard } from "@/src/types/card";
+import type { DeckSection, DeckSummary } from "@/src/types/deck";
+
+export const MAX_DECKLIST_LINES = 150;
+
+const MAX_CANDIDATES = 5;
+
+const MAX_PARALLEL_LOOKUPS = 8;
+
+// Export order and the header written for each section.
+const SECTION_HEADERS: [DeckSection, string][] = [
+  ["legend", "Legend"],
+  ["main", "Main Deck"],
+  ["battlefields", "Battlefields"],
+  ["runes", "Runes"],
+  ["side", "Sideboard"],
+];
+
+// Headers other tools use as well; champions are listed apart but play from the main deck.
+const HEADER_ALIASES: Record<string, DeckSection> = {
+  legend: "legend",
+  champion: "main",
+  main: "main",
+  "main deck": "main",
+  deck: "main",
+  rune: "runes",
+  runes: "runes",
+  "rune deck": "runes",
+  battlefield: "battlefields",
+  battlefields: "battlefields",
+  side: "side",
+  sideboard: "side",
+  "side deck": "side",
+};
+
+const HEADER_PATTERN = /^(?:#+|\/\/)?\s*([a-z ]+?)\s*(?:\(\d+\))?\s*:?$/i;
+const LEADING_COUNT_PATTERN = /^(\d+)\s*x?\s+(.+)$/i;
+const TRAILING_COUNT_PATTERN = /^(.+?)\s+x\s*(\d+)$/i;
+const PUBLIC_CODE_PATTERN = /^[a-z]{2,5}-?\d+[a-z*]?(?:\/\d+)?$/i;
+
+export interface DecklistLine {
+  lineNumber: number;
+  text: string;
+  quantity: number;
+  query: string;
+  section: DeckSection | null;
+}
+
+export interface DecklistIssue {
+  lineNumber: number;
+  text: string;
+  candidates?: string[];
+}
+
+export interface DecklistImportResult {
+  payload: DeckPayload;
+  unknown: DecklistIssue[];
+  ambiguous: DecklistIssue[];
+}
+
+/**
+ * Splits decklist text into card lines. Section headers ("Legend", "Runes:", "Sideboard (8)")
+ * apply to the lines below them; blank lines and `#`/`//` comments are skipped.
+ */
+export function parseDecklistText(text: string): DecklistLine[] {
+  const lines: DecklistLine[] = [];
+  let section: DeckSection | null = null;
+
+  text
+    .split(/\r?\n/)
+    .slice(0, MAX_DECKLIST_LINES)
+    .forEach((rawLine, index) => {
+      const line = rawLine.trim();
+      if (!line) return;
+
+      const header = line.match(HEADER_PATTERN)?.[1]?.toLowerCase();
+      if (header && HEADER_ALIASES[header]) {
+        section = HEADER_ALIASES[header];
+        return;
+      }
+      if (line.startsWith("#") || line.startsWith("//")) return;
+
+      const leading = line.match(LEADING_COUNT_PATTERN);
+      const trailing = leading ? null : line.match(TRAILING_COUNT_PATTERN);
+      const quantity = Number(leading?.[1] ?? trailing?.[2] ?? 1);
+      const query = (leading?.[2] ?? trailing?.[1] ?? line).trim();
+      if (quantity < 1 || !query) return;
+
+      lines.push({ lineNumber: index + 1, text: line, quantity, query, section });
+    });
+
+  return lines;
+}
+
+function cardKind(card: RiftCard): DeckSection {
+  const type = (card.classification?.type ?? "").toLowerCase();
+  if (type.includes("legend")) return "legend";
+  if (type.includes("rune")) return "runes";
+  if (type.includes("battlefield")) return "battlefields";
+  return "main";
+}
+
+function fitsSection(card: RiftCard, section: DeckSection) {
+  const kind = cardKind(card);
+  return section === "side" ? kind === "main" : kind === section;
+}
+
+function isSpecialPrinting(card: RiftCard) {
+  const metadata = card.metadata;
+  return Number(Boolean(metadata?.alternate_art || metadata?.overnumbered || metadata?.signature));
+}
+
+// Alternate arts and promos share a name with the base printing; the deck only needs one of them.
+function preferredPrinting(printings: RiftCard[]) {
+  return [...printings].sort(
+    (a, b) =>
+      isSpecialPrinting(a) - isSpecialPrinting(b) || (a.collector_number ?? 0) - (b.collector_number ?? 0)
+  )[0];
+}
+
+function describeCandidate(card: RiftCard) {
+  const type = card.classification?.type;
+  return type ? `${card.name} (${type})` : card.name;
+}
+
+/** Picks the card a line refers to: exact code or name first, then a unique partial name match. */
+function matchLine(line: DecklistLine, results: RiftCard[]): RiftCard | RiftCard[] | null {
+  const query = line.query.toLowerCase();
+  let pool: RiftCard[];
+  if (PUBLIC_CODE_PATTERN.test(line.query)) {
+    pool = results.filter((card) => {
+      const code = (card.public_code ?? "").toLowerCase();
+      return code === query || code.startsWith(`${query}/`);
+    });
+  } else {
+    const exact = results.filter((card) => card.name.toLowerCase() === query);
+    pool = exact.length > 0 ? exact : results.filter((card) => card.name.toLowerCase().includes(query));
+  }
+
+  if (line.section) {
+    const fitting = pool.filter((card) => fitsSection(card, line.section as DeckSection));
+    if (fitting.length > 0) pool = fitting;
+  }
+
+  const groups = new Map<string, RiftCard[]>();
+  pool.forEach((card) => {
+    const key = `${card.name}|${card.classification?.type ?? ""}`;
+    groups.set(key, [...(groups.get(key) ?? []), card]);
+  });
+
+  if (groups.size === 0) return null;
+  const printings = Array.from(groups.values()).map(preferredPrinting);
+  return printings.length === 1 ? printings[0] : printings;
+}
+
+/**
+ * Resolves parsed lines against the card catalog. `searchCards` runs once per distinct name or
+ * code. Lines without a section are placed by card type; unresolved lines are reported instead
+ * of guessed.
+ */
+export async function resolveDecklistLines(
+  lines: DecklistLine[],
+  searchCards: (query: string) => Promise<RiftCard[]>,
+  name = "Imported deck"
+): Promise<DecklistImportResult> {
+  const queries = Array.from(new Set(lines.map((line) => line.query.toLowerCase())));
+  const results = new Map<string, RiftCard[]>();
+  // A few lookups at a time, so one long list can't flood the catalog.
+  for (let start = 0; start < queries.length; start += MAX_PARALLEL_LOOKUPS) {
+    await Promise.all(
+      queries.slice(start, start + MAX_PARALLEL_LOOKUPS).map(async (query) => {
+        results.set(query, await searchCards(query).catch(() => []));
+      })
+    );
+  }
+
+  const cards: DeckPayloadCard[] = [];
+  const unknown: DecklistIssue[] = [];
+  const ambiguous: DecklistIssue[] = [];
+
+  lines.forEach((line) => {
+    const match = matchLine(line, results.get(line.query.toLowerCase()) ?? []);
+    if (!match) {
+      unknown.push({ lineNumber: line.lineNumber, text: line.text });
+      return;
+    }
+    if (Array.isArray(match)) {
+      ambiguous.push({
+        lineNumber: line.lineNumber,
+        text: line.text,
+        candidates: match.slice(0, MAX_CANDIDATES).map(describeCandidate),
+      });
+      return;
+    }
+
+    const section = line.section === "side" && cardKind(match) === "main" ? "side" : cardKind(match);
+    const existing = cards.find((card) => card.cardId === match.id && card.section === section);
+    if (existing) {
+      existing.quantity += line.quantity;
+      return;
+    }
+    cards.push({
+      cardId: match.id,
+      cardName: match.name,
+      cardPublicCode: match.public_code ?? null,
+      quantity: line.quantity,
+      section,
+      cardDomains: match.classification?.domain ?? [],
+      cardSupertype: match.classification?.supertype ?? null,
+      cardType: match.classification?.type ?? null,
+    });
+  });
+
+  return { payload: { name, cards }, unknown, ambiguous };
+}
+
+export function resolveDecklistText(
+  text: string,
+  searchCards: (query: string) => Promise<RiftCard[]>,
+  name?: string
+) {
+  return resolveDecklistLines(parseDecklistText(text), searchCards, name);
+}
+
+/** Writes a deck in the text format `parseDecklistText` reads, one header per non-empty section. */
+export function formatDecklistText(deck: Pick<DeckSummary, "cards">) {
+  return SECTION_HEADERS.map(([section, header]) => {
+    const entries = deck.cards.filter((card) => card.section === section && card.quantity > 0);
+    if (entries.length === 0) return null;
+    return [header, ...entries.map((card) => `${card.quantity} ${card.cardName}`)].join("\n");
+  })
+    .filter(Boolean)
+    .join("\n\n");
+}
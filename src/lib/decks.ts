@@ -1,3 +1,4 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
 import type { DeckSummary, DeckCardEntry, DeckSection } from "@/src/types/deck";
 
 export const SECTION_TARGETS: Record<DeckSection, number> = {
@@ -8,6 +9,9 @@ export const SECTION_TARGETS: Record<DeckSection, number> = {
   side: 8,
 };
 
+export const DECK_SELECT =
+  "id, owner_id, name, description, format, cover_card_id, is_public, created_at, updated_at, deck_cards(card_id, card_name, card_public_code, quantity, section, card_domains, card_supertype, card_type)";
+
 export function mapDeckRow(row: any): DeckSummary {
   const cards: DeckCardEntry[] = Array.isArray(row?.deck_cards)
     ? row.deck_cards.map((card: any) => ({
@@ -56,6 +60,50 @@ export interface DeckPayload {
   cards?: DeckPayloadCard[];
 }
 
+/** `decks` columns written by `save_deck`; when replacing, omitted columns keep their value. */
+export interface DeckRowInput {
+  name?: string;
+  description?: string | null;
+  format?: string | null;
+  cover_card_id?: string | null;
+  is_public?: boolean;
+}
+
+// Error codes `save_deck` raises for a missing session and a deck the caller doesn't own.
+const NOT_AUTHENTICATED = "28000";
+const NOT_FOUND = "P0002";
+
+/**
+ * Creates a deck (`deckId` null) or replaces one through the `save_deck` Postgres function, which
+ * writes the deck, its full card list and a revision snapshot in one transaction and checks that
+ * the caller owns the deck.
+ */
+export async function saveDeckRecord(
+  supabase: SupabaseClient,
+  deckId: string | null,
+  deck: DeckRowInput,
+  cards: DeckPayloadCard[],
+  note: string | null
+): Promise<{ deck: DeckSummary } | { error: string; status: number }> {
+  const { data, error } = await supabase.rpc("save_deck", {
+    p_deck_id: deckId,
+    p_deck: deck,
+    p_cards: cards,
+    p_note: note,
+  });
+
+  if (error) {
+    if (error.code === NOT_FOUND) return { error: "Deck not found", status: 404 };
+    if (error.code === NOT_AUTHENTICATED) return { error: "Not authenticated", status: 401 };
+    return { error: error.message, status: 500 };
+  }
+  if (!data) {
+    return { error: "Deck saved but could not load", status: 500 };
+  }
+
+  return { deck: mapDeckRow(data) };
+}
+
 export interface DeckValidationResult {
   errors: string[];
   legendCard?: DeckPayloadCard;
@@ -0,0 +1,642 @@
+import {
+  DEFAULT_AUTO_STEPS,
+  addToChain,
+  adjustCardCounter,
+  advancePhase,
+  attachCard,
+  channelRunes,
+  conquerBattlefield,
+  createToken,
+  detachCard,
+  drawCards,
+  endTurn,
+  findCard,
+  holdBattlefield,
+  isBoardZone,
+  moveCardBetweenZones,
+  passPriority,
+  MAX_MULLIGAN_CARDS,
+  lockOpeningChoice,
+  peekCards,
+  reorderPeekedCards,
+  setCardExhausted,
+  scorePoints,
+  setCardFaceDown,
+  setFirstPlayer,
+  shuffleDeck,
+  validateBattlefieldZone,
+  validateZone,
+} from "@/src/lib/matchState";
+import { recordGameResult } from "@/src/lib/matchSets";
+import type {
+  BattlefieldZoneKey,
+  MatchCard,
+  MatchState,
+  PlayerSlot,
+  TokenDefinition,
+  ZoneKey,
+} from "@/src/types/match";
+
+export type MatchActionType =
+  | "draw-card"
+  | "shuffle-deck"
+  | "channel-runes"
+  | "move-card"
+  | "exhaust-card"
+  | "ready-card"
+  | "flip-card"
+  | "adjust-counter"
+  | "attach-card"
+  | "detach-card"
+  | "create-token"
+  | "lock-mulligan"
+  | "peek"
+  | "reorder-top"
+  | "reveal"
+  | "reveal-hand"
+  | "conquer-battlefield"
+  | "hold-battlefield"
+  | "score-points"
+  | "next-phase"
+  | "end-turn"
+  | "set-first-player"
+  | "set-auto-steps"
+  | "chain-add"
+  | "chain-pass";
+
+export type MatchActionPayload = Record<string, unknown>;
+
+const MAX_AUTO_STEP_COUNT = 5;
+const MAX_PEEK_COUNT = 10;
+const MAX_TOKEN_COUNT = 10;
+const MAX_TOKEN_NAME_LENGTH = 80;
+const MAX_CHAIN_ITEMS = 20;
+const MAX_CHAIN_LABEL_LENGTH = 120;
+
+function normalizePlayer(payloadPlayer: unknown, fallback: PlayerSlot): PlayerSlot {
+  if (payloadPlayer === "p1" || payloadPlayer === "p2") {
+    return payloadPlayer;
+  }
+  return fallback;
+}
+
+function ensureZone(value: unknown): ZoneKey | null {
+  if (typeof value === "string" && validateZone(value)) {
+    return value;
+  }
+  return null;
+}
+
+function ensureBattlefield(value: unknown): BattlefieldZoneKey | null {
+  if (typeof value === "string" && validateBattlefieldZone(value)) {
+    return value;
+  }
+  return null;
+}
+
+// Whoever holds priority answers the chain; a table without an opponent answers itself.
+function holdsPriority(state: MatchState, slot: PlayerSlot) {
+  return state.chain?.priority === slot || !state.players.p2.id;
+}
+
+// Only the active player drives the turn, except at a table still waiting for an opponent.
+function controlsTurn(state: MatchState, slot: PlayerSlot) {
+  return state.turn === slot || !state.players.p2.id;
+}
+
+function clampStepCount(value: unknown, fallback: number) {
+  if (typeof value !== "number" || !Number.isFinite(value)) return fallback;
+  return Math.min(MAX_AUTO_STEP_COUNT, Math.max(0, Math.trunc(value)));
+}
+
+function clampCount(value: unknown, min: number, max: number) {
+  const count = typeof value === "number" && Number.isFinite(value) ? Math.trunc(value) : min;
+  return Math.min(max, Math.max(min, count));
+}
+
+// Draw and channel counts default to one; anything given must be a finite number of at least one.
+function readActionCount(value: unknown) {
+  if (value === undefined) return 1;
+  if (typeof value !== "number" || !Number.isFinite(value)) return null;
+  return Math.max(1, Math.trunc(value));
+}
+
+function toUidList(value: unknown) {
+  return Array.isArray(value) ? value.filter((uid): uid is string => typeof uid === "string") : [];
+}
+
+function optionalString(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+// The action route swaps in the catalog entry for the requested token id before this runs.
+function toTokenDefinition(value: unknown): TokenDefinition | null {
+  if (!value || typeof value !== "object") return null;
+  const source = value as Record<string, unknown>;
+  const name = optionalString(source.name);
+  if (!name || name.length > MAX_TOKEN_NAME_LENGTH) return null;
+  return {
+    cardId: optionalString(source.cardId),
+    name,
+    publicCode: optionalString(source.publicCode),
+    img: optionalString(source.img),
+  };
+}
+
+function cardExists(state: MatchState, slot: PlayerSlot, zone: ZoneKey, cardUid: string) {
+  return state.players[slot].zones[zone].some((card) => card.uid === cardUid);
+}
+
+function resolveCard(
+  state: MatchState,
+  payload: MatchActionPayload,
+  fallback: PlayerSlot,
+  keys: { uid: string; slot: string; zone: string } = { uid: "cardUid", slot: "slot", zone: "zone" }
+) {
+  const cardUid = typeof payload[keys.uid] === "string" ? (payload[keys.uid] as string) : null;
+  const slot = normalizePlayer(payload[keys.slot], fallback);
+  const zone = ensureZone(payload[keys.zone]);
+  if (!cardUid || !zone) return null;
+
+  const card = findCard(state, slot, zone, cardUid);
+  return card ? { card, slot, zone } : null;
+}
+
+export interface MatchActor {
+  slot: PlayerSlot;
+  userId: string;
+}
+
+/**
+ * Service-only companion to an event: the action input plus any random outcome, which is enough
+ * to re-apply the action exactly when replaying. Stored in `match_event_details`.
+ */
+export type MatchActionDetail = {
+  payload: MatchActionPayload;
+  order?: string[];
+  uids?: string[];
+};
+
+/** Row shape for `match_events`, minus the columns the database fills in. */
+export interface MatchEventDraft {
+  player_id: string | null;
+  type: string;
+  payload: Record<string, unknown>;
+  detail?: Record<string, unknown>;
+}
+
+export type MatchActionResult = { events: MatchEventDraft[] } | { error: string; status: number };
+
+/**
+ * Applies one player action to `state` in place and returns the events to log alongside it.
+ * Nothing outside `state` is touched, so callers can re-run it against a fresher copy after a
+ * version conflict. Passing the `recorded` detail of a logged event replays its shuffle (and
+ * reuses its generated token uids) instead of rolling new ones.
+ */
+export function applyMatchAction(
+  state: MatchState,
+  actor: MatchActor,
+  type: MatchActionType,
+  payload: MatchActionPayload,
+  recorded?: MatchActionDetail
+): MatchActionResult {
+  if (state.pendingUndo) {
+    return { error: "Answer the pending undo request first", status: 409 };
+  }
+  // The seed is public once a game ends, so the finished board stays as it is; only the choices
+  // for the next game of a set remain open.
+  if (state.winner && type !== "set-first-player") {
+    return { error: "This game is over", status: 409 };
+  }
+
+  const eventPayload: Record<string, unknown> = { actor: actor.slot, type };
+  const detail: MatchActionDetail = { payload };
+  let decidedWinner: PlayerSlot | null = null;
+  let openingRecycled: Record<PlayerSlot, number> | null = null;
+
+  switch (type) {
+    case "draw-card": {
+      const target = normalizePlayer(payload.player, actor.slot);
+      const count = readActionCount(payload.count);
+      if (count === null) {
+        return { error: "Invalid count", status: 400 };
+      }
+      drawCards(state, target, count);
+      eventPayload.player = target;
+      eventPayload.count = count;
+      break;
+    }
+    case "shuffle-deck": {
+      const target = normalizePlayer(payload.player, actor.slot);
+      const zone = payload.zone === "runeDeck" ? "runeDeck" : "deck";
+      const shuffle = shuffleDeck(state, target, zone, recorded?.order);
+      detail.order = shuffle.order;
+      eventPayload.shuffle = { index: shuffle.index, commitment: shuffle.commitment };
+      eventPayload.player = target;
+      eventPayload.zone = zone;
+      break;
+    }
+    case "channel-runes": {
+      const target = normalizePlayer(payload.player, actor.slot);
+      const count = readActionCount(payload.count);
+      if (count === null) {
+        return { error: "Invalid count", status: 400 };
+      }
+      channelRunes(state, target, count);
+      eventPayload.player = target;
+      eventPayload.count = count;
+      break;
+    }
+    case "move-card": {
+      const cardUid = typeof payload.cardUid === "string" ? payload.cardUid : null;
+      const fromSlot = normalizePlayer(payload.fromSlot, actor.slot);
+      const toSlot = normalizePlayer(payload.toSlot, actor.slot);
+      const fromZone = ensureZone(payload.fromZone);
+      const toZone = ensureZone(payload.toZone);
+      const position = payload.position === "bottom" ? "bottom" : "top";
+
+      if (!cardUid || !fromZone || !toZone) {
+        return { error: "Invalid move parameters", status: 400 };
+      }
+
+      if (!cardExists(state, fromSlot, fromZone, cardUid)) {
+        return { error: "Card not found in source zone", status: 400 };
+      }
+
+      const kept = moveCardBetweenZones(
+        state,
+        { slot: fromSlot, zone: fromZone },
+        { slot: toSlot, zone: toZone },
+        cardUid,
+        position
+      );
+
+      if (!kept) {
+        eventPayload.tokenRemoved = true;
+      }
+      eventPayload.cardUid = cardUid;
+      eventPayload.from = { slot: fromSlot, zone: fromZone };
+      eventPayload.to = { slot: toSlot, zone: toZone };
+      eventPayload.position = position;
+      break;
+    }
+    case "exhaust-card":
+    case "ready-card": {
+      const target = resolveCard(state, payload, actor.slot);
+      if (!target) {
+        return { error: "Card not found", status: 400 };
+      }
+      setCardExhausted(target.card, type === "exhaust-card");
+      eventPayload.cardUid = target.card.uid;
+      eventPayload.cardName = target.card.faceDown ? null : target.card.name;
+      eventPayload.at = { slot: target.slot, zone: target.zone };
+      break;
+    }
+    case "flip-card": {
+      const target = resolveCard(state, payload, actor.slot);
+      if (!target) {
+        return { error: "Card not found", status: 400 };
+      }
+      const faceDown =
+        typeof payload.faceDown === "boolean" ? payload.faceDown : !target.card.faceDown;
+      setCardFaceDown(target.card, faceDown);
+      eventPayload.cardUid = target.card.uid;
+      eventPayload.cardName = faceDown ? null : target.card.name;
+      eventPayload.faceDown = faceDown;
+      eventPayload.at = { slot: target.slot, zone: target.zone };
+      break;
+    }
+    case "adjust-counter": {
+      const target = resolveCard(state, payload, actor.slot);
+      const counter =
+        typeof payload.counter === "string" ? payload.counter.trim().toLowerCase() : "";
+      const delta = typeof payload.delta === "number" ? Math.trunc(payload.delta) : 0;
+      if (!target) {
+        return { error: "Card not found", status: 400 };
+      }
+      if (!counter || counter.length > 24) {
+        return { error: "Counter name is required", status: 400 };
+      }
+      if (delta === 0) {
+        return { error: "Delta must be non-zero", status: 400 };
+      }
+      const total = adjustCardCounter(target.card, counter, delta);
+      eventPayload.cardUid = target.card.uid;
+      eventPayload.cardName = target.card.faceDown ? null : target.card.name;
+      eventPayload.counter = counter;
+      eventPayload.delta = delta;
+      eventPayload.total = Math.max(0, total);
+      break;
+    }
+    case "attach-card": {
+      const host = resolveCard(state, payload, actor.slot, {
+        uid: "hostUid",
+        slot: "hostSlot",
+        zone: "hostZone",
+      });
+      const attachment = resolveCard(state, payload, actor.slot, {
+        uid: "cardUid",
+        slot: "fromSlot",
+        zone: "fromZone",
+      });
+      if (!host || !attachment) {
+        return { error: "Card not found", status: 400 };
+      }
+      if (host.card.uid === attachment.card.uid) {
+        return { error: "A card cannot attach to itself", status: 400 };
+      }
+      const attachedName = attachment.card.faceDown ? null : attachment.card.name;
+      attachCard(state, { slot: attachment.slot, zone: attachment.zone }, attachment.card.uid, host.card);
+      eventPayload.cardUid = attachment.card.uid;
+      eventPayload.cardName = attachedName;
+      eventPayload.hostUid = host.card.uid;
+      eventPayload.hostName = host.card.faceDown ? null : host.card.name;
+      break;
+    }
+    case "detach-card": {
+      const host = resolveCard(state, payload, actor.slot, {
+        uid: "hostUid",
+        slot: "hostSlot",
+        zone: "hostZone",
+      });
+      const cardUid = typeof payload.cardUid === "string" ? payload.cardUid : null;
+      const toSlot = normalizePlayer(payload.toSlot, actor.slot);
+      const toZone = ensureZone(payload.toZone) ?? "base";
+      const attachment = host?.card.attachments.find((card) => card.uid === cardUid);
+      if (!host || !attachment) {
+        return { error: "Attachment not found", status: 400 };
+      }
+      const detachedName = attachment.faceDown ? null : attachment.name;
+      if (!detachCard(state, host.card, attachment.uid, { slot: toSlot, zone: toZone })) {
+        eventPayload.tokenRemoved = true;
+      }
+      eventPayload.cardUid = attachment.uid;
+      eventPayload.cardName = detachedName;
+      eventPayload.hostName = host.card.faceDown ? null : host.card.name;
+      eventPayload.to = { slot: toSlot, zone: toZone };
+      break;
+    }
+    case "create-token": {
+      const target = normalizePlayer(payload.player, actor.slot);
+      const zone = ensureZone(payload.zone) ?? "base";
+      const definition = toTokenDefinition(payload.token);
+      const count = clampCount(payload.count, 1, MAX_TOKEN_COUNT);
+      if (!definition) {
+        return { error: "Choose a token to create", status: 400 };
+      }
+      if (!isBoardZone(zone)) {
+        return { error: "Tokens can only be created in play", status: 400 };
+      }
+      const tokens = Array.from({ length: count }, (_, index) =>
+        createToken(state, target, zone, definition, recorded?.uids?.[index])
+      );
+      detail.uids = tokens.map((token) => token.uid);
+      eventPayload.player = target;
+      eventPayload.zone = zone;
+      eventPayload.tokenName = definition.name;
+      eventPayload.cardUids = tokens.map((token) => token.uid);
+      break;
+    }
+    case "peek": {
+      const zone = payload.zone === "runeDeck" ? "runeDeck" : "deck";
+      const count = clampCount(payload.count, 1, MAX_PEEK_COUNT);
+      const seen = peekCards(state, actor.slot, zone, count);
+      if (seen === 0) {
+        return { error: "There are no cards to look at", status: 400 };
+      }
+      eventPayload.player = actor.slot;
+      eventPayload.zone = zone;
+      eventPayload.count = seen;
+      break;
+    }
+    case "reorder-top": {
+      const top = toUidList(payload.top);
+      const bottom = toUidList(payload.bottom);
+      const zone = state.players[actor.slot].peek?.zone ?? "deck";
+      if (!reorderPeekedCards(state, actor.slot, top, bottom)) {
+        return { error: "List every card you looked at exactly once", status: 400 };
+      }
+      // Only counts go in the log; the order itself stays private.
+      eventPayload.player = actor.slot;
+      eventPayload.zone = zone;
+      eventPayload.topCount = top.length;
+      eventPayload.bottomCount = bottom.length;
+      break;
+    }
+    case "reveal":
+    case "reveal-hand": {
+      const zones = state.players[actor.slot].zones;
+      const fromDeck = type === "reveal" && payload.zone === "deck";
+      let cards: MatchCard[];
+      if (type === "reveal-hand") {
+        cards = [...zones.hand];
+      } else if (fromDeck) {
+        cards = zones.deck.slice(0, clampCount(payload.count, 1, MAX_PEEK_COUNT));
+      } else {
+        const uids = toUidList(payload.cardUids);
+        cards = zones.hand.filter((card) => uids.includes(card.uid));
+        if (cards.length !== uids.length) {
+          return { error: "You can only reveal cards from your hand", status: 400 };
+        }
+      }
+      if (cards.length === 0) {
+        return { error: "Choose at least one card to reveal", status: 400 };
+      }
+      // Revealed cards are public by definition, so the log carries what was shown.
+      eventPayload.player = actor.slot;
+      eventPayload.zone = fromDeck ? "deck" : "hand";
+      eventPayload.cards = cards.map(({ uid, cardId, name, publicCode, img }) => ({
+        uid,
+        cardId,
+        name,
+        publicCode,
+        img,
+      }));
+      break;
+    }
+    case "lock-mulligan": {
+      const choice = state.opening?.[actor.slot];
+      if (!choice) {
+        return { error: "The opening mulligan is already over", status: 409 };
+      }
+      if (choice.lockedIn) {
+        return { error: "You have already locked in your mulligan", status: 409 };
+      }
+      const setAside = Array.from(new Set(toUidList(payload.cardUids)));
+      if (setAside.length > MAX_MULLIGAN_CARDS) {
+        return { error: `Set aside at most ${MAX_MULLIGAN_CARDS} cards`, status: 400 };
+      }
+      if (setAside.some((uid) => !cardExists(state, actor.slot, "hand", uid))) {
+        return { error: "Only cards in your hand can be set aside", status: 400 };
+      }
+      // The choice itself stays off the public log until both players have locked in.
+      openingRecycled = lockOpeningChoice(state, actor.slot, setAside);
+      eventPayload.player = actor.slot;
+      break;
+    }
+    case "conquer-battlefield": {
+      const battlefieldSlot = normalizePlayer(payload.slot, actor.slot);
+      const zone = ensureBattlefield(payload.zone);
+      const conqueror = normalizePlayer(payload.player, actor.slot);
+      if (!zone) {
+        return { error: "Invalid battlefield", status: 400 };
+      }
+      decidedWinner = conquerBattlefield(state, { slot: battlefieldSlot, zone }, conqueror);
+      eventPayload.player = conqueror;
+      eventPayload.battlefield = { slot: battlefieldSlot, zone };
+      eventPayload.battlefieldName = state.players[battlefieldSlot].battlefields[zone].card?.name ?? null;
+      eventPayload.points = state.players[conqueror].points;
+      break;
+    }
+    case "hold-battlefield": {
+      const battlefieldSlot = normalizePlayer(payload.slot, actor.slot);
+      const zone = ensureBattlefield(payload.zone);
+      if (!zone) {
+        return { error: "Invalid battlefield", status: 400 };
+      }
+      const controller = state.players[battlefieldSlot].battlefields[zone].controller;
+      if (!controller) {
+        return { error: "Nobody controls that battlefield", status: 400 };
+      }
+      decidedWinner = holdBattlefield(state, { slot: battlefieldSlot, zone });
+      eventPayload.player = controller;
+      eventPayload.battlefield = { slot: battlefieldSlot, zone };
+      eventPayload.battlefieldName = state.players[battlefieldSlot].battlefields[zone].card?.name ?? null;
+      eventPayload.points = state.players[controller].points;
+      break;
+    }
+    case "score-points": {
+      const target = normalizePlayer(payload.player, actor.slot);
+      const delta = typeof payload.delta === "number" ? Math.trunc(payload.delta) : 0;
+      if (delta === 0) {
+        return { error: "Delta must be non-zero", status: 400 };
+      }
+      decidedWinner = scorePoints(state, target, delta);
+      eventPayload.player = target;
+      eventPayload.delta = delta;
+      eventPayload.points = state.players[target].points;
+      break;
+    }
+    case "next-phase":
+    case "end-turn": {
+      if (!controlsTurn(state, actor.slot)) {
+        return { error: "Only the active player can move the turn along", status: 403 };
+      }
+      if (state.opening) {
+        return { error: "Finish the opening mulligan first", status: 409 };
+      }
+      if (state.chain) {
+        return { error: "Resolve the chain first", status: 409 };
+      }
+      Object.assign(eventPayload, type === "end-turn" ? endTurn(state) : advancePhase(state));
+      break;
+    }
+    case "set-first-player": {
+      const target = normalizePlayer(payload.player, actor.slot);
+      // Between games the loser of the last one chooses; they confirm it when they lock in.
+      const sideboard = state.set?.sideboard;
+      if (state.winner) {
+        if (!sideboard) {
+          return { error: "This game is over", status: 409 };
+        }
+        if (actor.slot !== sideboard.chooser) {
+          return { error: "The loser of the last game chooses who goes first", status: 403 };
+        }
+        if (sideboard.choices[actor.slot].lockedIn) {
+          return { error: "You have already locked in", status: 409 };
+        }
+        sideboard.firstPlayer = target;
+        eventPayload.player = target;
+        break;
+      }
+      if (actor.slot !== "p1") {
+        return { error: "Only the host chooses who goes first", status: 403 };
+      }
+      const firstPlayerError = setFirstPlayer(state, target);
+      if (firstPlayerError) {
+        return { error: firstPlayerError, status: 400 };
+      }
+      eventPayload.player = target;
+      break;
+    }
+    case "set-auto-steps": {
+      const current = state.autoSteps ?? DEFAULT_AUTO_STEPS;
+      const autoSteps = {
+        readyOnAwaken:
+          typeof payload.readyOnAwaken === "boolean" ? payload.readyOnAwaken : current.readyOnAwaken,
+        channelRunes: clampStepCount(payload.channelRunes, current.channelRunes),
+        drawCards: clampStepCount(payload.drawCards, current.drawCards),
+      };
+      state.autoSteps = autoSteps;
+      eventPayload.autoSteps = autoSteps;
+      break;
+    }
+    case "chain-add": {
+      if (state.chain && !holdsPriority(state, actor.slot)) {
+        return { error: "Wait for your opponent to pass or respond", status: 403 };
+      }
+      if ((state.chain?.items.length ?? 0) >= MAX_CHAIN_ITEMS) {
+        return { error: "The chain is full", status: 400 };
+      }
+      const source = payload.cardUid ? resolveCard(state, payload, actor.slot) : null;
+      if (payload.cardUid && !source) {
+        return { error: "Card not found", status: 400 };
+      }
+      const cardName = source && !source.card.faceDown ? source.card.name : null;
+      const label = optionalString(payload.label) ?? cardName;
+      if (!label || label.length > MAX_CHAIN_LABEL_LENGTH) {
+        return { error: "Describe what you are adding to the chain", status: 400 };
+      }
+      const responding = Boolean(state.chain);
+      const item = addToChain(state, actor.slot, {
+        label,
+        cardUid: source?.card.uid ?? null,
+        cardName,
+      });
+      eventPayload.player = actor.slot;
+      eventPayload.item = item;
+      eventPayload.responding = responding;
+      eventPayload.priority = state.chain?.priority ?? null;
+      break;
+    }
+    case "chain-pass": {
+      if (!state.chain) {
+        return { error: "There is nothing on the chain", status: 400 };
+      }
+      if (!holdsPriority(state, actor.slot)) {
+        return { error: "Your opponent holds priority", status: 403 };
+      }
+      const resolved = passPriority(state);
+      eventPayload.player = actor.slot;
+      eventPayload.resolved = resolved;
+      eventPayload.remaining = state.chain?.items.length ?? 0;
+      eventPayload.priority = state.chain?.priority ?? null;
+      break;
+    }
+    default:
+      return { error: "Unsupported action", status: 400 };
+  }
+
+  const events: MatchEventDraft[] = [{ player_id: actor.userId, type, payload: eventPayload, detail }];
+  if (openingRecycled) {
+    events.push({ player_id: null, type: "opening_complete", payload: { recycled: openingRecycled } });
+  }
+  if (decidedWinner) {
+    const setWinner = recordGameResult(state, decidedWinner);
+    events.push({
+      player_id: state.players[decidedWinner].id,
+      type: "match_ended",
+      payload: {
+        winner: decidedWinner,
+        points: { p1: state.players.p1.points, p2: state.players.p2.points },
+        victoryTarget: state.victoryTarget,
+        game: state.set?.game ?? 1,
+        setWinner,
+        // Revealing the seed lets both players re-derive and check every shuffle commitment.
+        shuffleSeed: state.shuffle.seed,
+      },
+    });
+  }
+
+  return { events };
+}
@@ -0,0 +1,11 @@
+import type { MatchViewer } from "@/src/lib/matchView";
+import type { MatchMessageChannel } from "@/src/types/match";
+
+export const MAX_MESSAGE_LENGTH = 280;
+
+export const CANNED_MESSAGES = ["Pass", "Respond?", "GG", "Good luck, have fun", "Thinking…", "Thanks"];
+
+/** Players talk in the players channel; everyone else is kept to the spectators channel. */
+export function messageChannelFor(viewer: MatchViewer): MatchMessageChannel {
+  return viewer === "spectator" ? "spectators" : "players";
+}
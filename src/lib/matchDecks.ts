@@ -0,0 +1,64 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { DECK_SELECT, mapDeckRow, validateDeckRules } from "@/src/lib/decks";
+import { fetchRiftcodexJson } from "@/src/lib/riftcodex";
+import type { CardImageLookup } from "@/src/lib/matchState";
+import type { RiftCard } from "@/src/types/card";
+import type { DeckSummary } from "@/src/types/deck";
+
+export type MatchDeckResult =
+  | { deck: DeckSummary; images: CardImageLookup }
+  | { error: string; status: number };
+
+export async function fetchCardImages(cardIds: string[]): Promise<CardImageLookup> {
+  const images: CardImageLookup = {};
+  const results = await Promise.all(
+    cardIds.map(async (id) => {
+      try {
+        const card = await fetchRiftcodexJson<RiftCard>(`/cards/${id}`);
+        return [id, card.media?.image_url ?? null] as const;
+      } catch (error) {
+        console.warn(`[matchDecks] Unable to load art for card ${id}`, error);
+        return [id, null] as const;
+      }
+    })
+  );
+
+  results.forEach(([id, url]) => {
+    images[id] = url;
+  });
+  return images;
+}
+
+export async function loadMatchDeck(
+  supabase: SupabaseClient,
+  deckId: unknown
+): Promise<MatchDeckResult> {
+  if (typeof deckId !== "string" || !deckId) {
+    return { error: "Choose a deck to play with", status: 400 };
+  }
+
+  const { data: deckRow, error } = await supabase
+    .from("decks")
+    .select(DECK_SELECT)
+    .eq("id", deckId)
+    .maybeSingle();
+
+  if (error) {
+    return { error: error.message, status: 500 };
+  }
+
+  if (!deckRow) {
+    return { error: "Deck not found", status: 404 };
+  }
+
+  const deck = mapDeckRow(deckRow);
+  const ruleCheck = validateDeckRules(deck.cards);
+  if (ruleCheck.errors.length > 0) {
+    return { error: ruleCheck.errors.join(" "), status: 400 };
+  }
+
+  const cardIds = Array.from(new Set(deck.cards.map((card) => card.cardId)));
+  const images = await fetchCardImages(cardIds);
+
+  return { deck, images };
+}
@@ -0,0 +1,201 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { loadMatchDeck } from "@/src/lib/matchDecks";
+import { createMatch, DEFAULT_MATCH_OPTIONS, seatPlayerTwo } from "@/src/lib/matchSetup";
+import { normalizeBestOf } from "@/src/lib/matchSets";
+import type { QueueStatus } from "@/src/types/match";
+
+/** How long a player waits for a partner before their queue entry lapses. */
+export const QUEUE_TIMEOUT_SECONDS = 120;
+
+interface QueueRow {
+  user_id: string;
+  deck_id: string;
+  best_of: number;
+  claimed_by: string | null;
+  match_code: string | null;
+  created_at: string;
+}
+
+const QUEUE_SELECT = "user_id, deck_id, best_of, claimed_by, match_code, created_at";
+
+function expiresAt(row: QueueRow) {
+  return new Date(new Date(row.created_at).getTime() + QUEUE_TIMEOUT_SECONDS * 1000).toISOString();
+}
+
+function isExpired(row: QueueRow) {
+  return new Date(expiresAt(row)).getTime() <= Date.now();
+}
+
+/** Puts the player (back) at the end of the queue with a fresh timeout. */
+export async function enqueuePlayer(
+  admin: SupabaseClient,
+  userId: string,
+  deckId: string,
+  bestOf: number
+): Promise<{ error: string } | null> {
+  const { error } = await admin.from("match_queue").upsert({
+    user_id: userId,
+    deck_id: deckId,
+    best_of: normalizeBestOf(bestOf),
+    claimed_by: null,
+    match_code: null,
+    created_at: new Date().toISOString(),
+  });
+  return error ? { error: error.message } : null;
+}
+
+/**
+ * Pairs the player with the longest-waiting compatible entry, if any. The partner hosts the new
+ * match and learns its code from their queue row; the caller gets it straight back.
+ */
+async function pairQueuedPlayer(
+  admin: SupabaseClient,
+  userId: string
+): Promise<{ code: string } | { error: string } | null> {
+  const { data, error } = await admin.rpc("claim_queue_partner", {
+    p_user_id: userId,
+    p_timeout_seconds: QUEUE_TIMEOUT_SECONDS,
+  });
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  // A function returning a row type yields a row of nulls when nobody was claimed.
+  const partner = data as QueueRow | null;
+  if (!partner?.user_id) {
+    return null;
+  }
+
+  const release = (userIds: string[]) =>
+    admin.from("match_queue").update({ claimed_by: null }).in("user_id", userIds);
+
+  const { data: own } = await admin.from("match_queue").select("deck_id").eq("user_id", userId).single();
+  const [hostDeck, guestDeck] = await Promise.all([
+    loadMatchDeck(admin, partner.deck_id),
+    loadMatchDeck(admin, own?.deck_id),
+  ]);
+
+  // A deck that stopped being playable drops its owner from the queue; the other keeps waiting.
+  if ("error" in hostDeck) {
+    await admin.from("match_queue").delete().eq("user_id", partner.user_id);
+    await release([userId]);
+    return null;
+  }
+  if ("error" in guestDeck) {
+    await admin.from("match_queue").delete().eq("user_id", userId);
+    await release([partner.user_id]);
+    return { error: guestDeck.error };
+  }
+
+  const created = await createMatch(admin, partner.user_id, hostDeck, {
+    ...DEFAULT_MATCH_OPTIONS,
+    bestOf: normalizeBestOf(partner.best_of),
+  });
+  if ("error" in created) {
+    await release([userId, partner.user_id]);
+    return { error: created.error };
+  }
+
+  const failure = await seatPlayerTwo(admin, created.match.id, userId, guestDeck);
+  if (failure) {
+    // Nobody was told about this match yet, so it goes away with everything hanging off it.
+    await admin.from("matches").delete().eq("id", created.match.id);
+    await release([userId, partner.user_id]);
+    return { error: failure.error };
+  }
+
+  await admin.from("match_queue").update({ match_code: created.match.code }).eq("user_id", partner.user_id);
+  await admin.from("match_queue").delete().eq("user_id", userId);
+  return { code: created.match.code };
+}
+
+/**
+ * Reports where the player stands in the queue, trying to pair them on the way. Matched and
+ * lapsed entries are removed once reported.
+ */
+export async function readQueueStatus(
+  admin: SupabaseClient,
+  userId: string
+): Promise<QueueStatus | { error: string }> {
+  const { data, error } = await admin
+    .from("match_queue")
+    .select(QUEUE_SELECT)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  const row = data as QueueRow | null;
+  if (!row) {
+    return { status: "idle" };
+  }
+
+  if (row.match_code) {
+    await admin.from("match_queue").delete().eq("user_id", userId);
+    return { status: "matched", code: row.match_code };
+  }
+
+  // Someone is building a match with this player right now; the next poll will see its code.
+  // Pairing either writes that code or releases the claim, so a claimed entry never lapses, even
+  // past the timeout.
+  if (row.claimed_by) {
+    return { status: "waiting", expiresAt: expiresAt(row) };
+  }
+
+  if (isExpired(row)) {
+    const { data: removed, error: deleteError } = await admin
+      .from("match_queue")
+      .delete()
+      .eq("user_id", userId)
+      .is("claimed_by", null)
+      .is("match_code", null)
+      .select("user_id");
+
+    if (deleteError) {
+      return { error: deleteError.message };
+    }
+    // A partner claimed the entry after it was read; let them finish.
+    if (!removed || removed.length === 0) {
+      return { status: "waiting", expiresAt: expiresAt(row) };
+    }
+    return { status: "expired" };
+  }
+
+  const paired = await pairQueuedPlayer(admin, userId);
+  if (paired && "error" in paired) {
+    return paired;
+  }
+  if (paired) {
+    return { status: "matched", code: paired.code };
+  }
+  return { status: "waiting", expiresAt: expiresAt(row) };
+}
+
+/** Removes the player from the queue unless a match is already being made for them. */
+export async function leaveQueue(
+  admin: SupabaseClient,
+  userId: string
+): Promise<QueueStatus | { error: string }> {
+  const { error } = await admin
+    .from("match_queue")
+    .delete()
+    .eq("user_id", userId)
+    .is("claimed_by", null)
+    .is("match_code", null);
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  const { data } = await admin.from("match_queue").select(QUEUE_SELECT).eq("user_id", userId).maybeSingle();
+  const row = data as QueueRow | null;
+  if (!row) {
+    return { status: "idle" };
+  }
+  return row.match_code
+    ? { status: "matched", code: row.match_code }
+    : { status: "waiting", expiresAt: expiresAt(row) };
+}
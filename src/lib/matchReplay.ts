@@ -0,0 +1,332 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { applyMatchAction, type MatchActionDetail, type MatchActionType } from "@/src/lib/matchActions";
+import {
+  assignPlayerTwo,
+  shuffleOpeningDecks,
+  startOpening,
+  type PlayerSetup,
+} from "@/src/lib/matchState";
+import { buildNextGameState, lockSideboard, registerDecklist } from "@/src/lib/matchSets";
+import { hashShuffleSeed, seededShuffle, shuffleCommitment } from "@/src/lib/matchShuffle";
+import type { DeckCardEntry } from "@/src/types/deck";
+import type { MatchEventRecord, MatchState, PlayerSlot } from "@/src/types/match";
+
+export interface ReplayFrame {
+  version: number;
+  events: MatchEventRecord[];
+  state: MatchState;
+}
+
+export interface ReplayLog {
+  initial: MatchState;
+  events: MatchEventRecord[];
+  details: Map<number, Record<string, unknown>>;
+  /** The seed of the game still on the board; earlier games reveal theirs in `match_ended`. */
+  currentSeed: string | null;
+}
+
+export interface ShuffleAudit {
+  seed: string;
+  seedMatches: boolean;
+  shuffles: { eventId: number; index: number; verified: boolean }[];
+}
+
+// Host settings logged outside `commit_match_state`: they never touch the board, so they carry no
+// state version and replays show them alongside the frame they happened after.
+const UNVERSIONED_EVENTS = new Set(["spectators_opened", "spectators_closed", "spectator_kicked"]);
+
+type PublishedShuffle = { zone?: "deck" | "runeDeck"; index: number; commitment: string };
+
+type DetailRow = { detail: Record<string, unknown> };
+
+type ReplayEventRow = MatchEventRecord & { match_event_details: DetailRow | DetailRow[] | null };
+
+/**
+ * Loads everything needed to rebuild a match: the state before its first committed version,
+ * every event in order, and the private detail rows that make each event re-appliable.
+ */
+export async function loadReplayLog(
+  admin: SupabaseClient,
+  matchId: string,
+  current: { state: MatchState; version: number }
+): Promise<ReplayLog | { error: string }> {
+  let initial = current.state;
+  if (current.version > 0) {
+    const { data: snapshot, error } = await admin
+      .from("match_state_snapshots")
+      .select("state")
+      .eq("match_id", matchId)
+      .eq("version", 0)
+      .maybeSingle();
+
+    if (error) {
+      return { error: error.message };
+    }
+    if (!snapshot) {
+      return { error: "This match was played before replays were recorded" };
+    }
+    initial = snapshot.state as MatchState;
+  }
+
+  const { data: rows, error: eventsError } = await admin
+    .from("match_events")
+    .select("id, match_id, player_id, type, payload, state_version, created_at, match_event_details(detail)")
+    .eq("match_id", matchId)
+    .order("id", { ascending: true });
+
+  if (eventsError) {
+    return { error: eventsError.message };
+  }
+
+  const events: MatchEventRecord[] = [];
+  const details = new Map<number, Record<string, unknown>>();
+  ((rows ?? []) as ReplayEventRow[]).forEach(({ match_event_details: detailRow, ...event }) => {
+    const detail = Array.isArray(detailRow) ? detailRow[0] : detailRow;
+    if (detail) {
+      details.set(event.id, detail.detail);
+    }
+    events.push(event);
+  });
+
+  return { initial, events, details, currentSeed: current.state.shuffle?.seed ?? null };
+}
+
+/**
+ * The shuffle seed behind each game's opening event (`match_created` or `game_started`), keyed by
+ * that event's id: the seed its `match_ended` revealed, or `currentSeed` for the game in progress.
+ */
+function gameSeeds(events: MatchEventRecord[], currentSeed: string | null) {
+  const seeds = new Map<number, string | null>();
+  let opening: number | null = null;
+  events.forEach((event) => {
+    if (event.type === "match_created" || event.type === "game_started") {
+      opening = event.id;
+      seeds.set(opening, currentSeed);
+    } else if (event.type === "match_ended" && opening !== null) {
+      const revealed = event.payload?.shuffleSeed;
+      seeds.set(opening, typeof revealed === "string" ? revealed : currentSeed);
+    }
+  });
+  return seeds;
+}
+
+function applyReplayEvent(
+  state: MatchState,
+  event: MatchEventRecord,
+  detail: Record<string, unknown> | undefined,
+  frames: ReplayFrame[],
+  seeds: Map<number, string | null>
+): boolean {
+  const payload = event.payload ?? {};
+
+  switch (event.type) {
+    case "player_joined": {
+      if (!detail?.setup || !event.player_id) return false;
+      assignPlayerTwo(state, event.player_id, structuredClone(detail.setup as PlayerSetup));
+      registerDecklist(state, "p2", (detail.decklist as DeckCardEntry[] | undefined) ?? []);
+      shuffleOpeningDecks(state, "p2", (detail.orders as string[][] | undefined) ?? []);
+      startOpening(state);
+      return true;
+    }
+    case "sideboard_locked": {
+      if (!detail || (payload.actor !== "p1" && payload.actor !== "p2")) return false;
+      return !lockSideboard(state, payload.actor, (detail as MatchActionDetail).payload);
+    }
+    case "game_started": {
+      // Older logs kept the whole board; newer ones re-deal it from the setups and the seed.
+      if (detail?.state) {
+        Object.assign(state, structuredClone(detail.state as MatchState));
+        return true;
+      }
+      const seed = seeds.get(event.id);
+      if (!detail?.setups || !seed) return false;
+      const next = buildNextGameState(
+        state,
+        structuredClone(detail.setups as Record<PlayerSlot, PlayerSetup>),
+        seed
+      );
+      if (!next) return false;
+      Object.assign(state, next.state);
+      return true;
+    }
+    case "undo_requested": {
+      if (typeof payload.targetVersion !== "number") return false;
+      state.pendingUndo = {
+        requestedBy: payload.actor as PlayerSlot,
+        eventId: Number(payload.eventId),
+        eventType: String(payload.eventType),
+        targetVersion: payload.targetVersion,
+      };
+      return true;
+    }
+    case "undo_declined": {
+      state.pendingUndo = null;
+      return true;
+    }
+    case "undo_applied": {
+      const restored = frames.find((frame) => frame.version === payload.restoredVersion);
+      if (!restored) return false;
+      // Rollbacks keep the shuffle counter where it was, as `applyUndoAction` does.
+      const count = Math.max(state.shuffle?.count ?? 0, restored.state.shuffle?.count ?? 0);
+      Object.assign(state, structuredClone(restored.state), { pendingUndo: null });
+      if (state.shuffle) {
+        state.shuffle = { ...state.shuffle, count };
+      }
+      return true;
+    }
+    default: {
+      if (!detail || (payload.actor !== "p1" && payload.actor !== "p2")) return false;
+      const recorded = detail as MatchActionDetail;
+      const result = applyMatchAction(
+        state,
+        { slot: payload.actor, userId: event.player_id ?? "" },
+        event.type as MatchActionType,
+        recorded.payload,
+        recorded
+      );
+      return !("error" in result);
+    }
+  }
+}
+
+/**
+ * Re-applies the logged events on top of the initial state and returns one frame per committed
+ * version. Events that share a version (an action and the `match_ended` it triggered) land in
+ * the same frame; host settings without a version join the frame before them. `complete` is
+ * false when an event could not be re-applied, in which case the frames stop just before it.
+ */
+export function buildReplayFrames({ initial, events, details, currentSeed }: ReplayLog) {
+  const seeds = gameSeeds(events, currentSeed);
+  const state = structuredClone(initial);
+  const frames: ReplayFrame[] = [{ version: 0, events: [], state: structuredClone(state) }];
+  let complete = true;
+
+  for (let index = 0; index < events.length; ) {
+    const event = events[index];
+    const version = event.state_version;
+
+    if ((version === null || version === 0) && UNVERSIONED_EVENTS.has(event.type)) {
+      frames[frames.length - 1].events.push(event);
+      index += 1;
+      continue;
+    }
+
+    if (version === null || version === 0) {
+      if (event.type !== "match_created") {
+        complete = false;
+        break;
+      }
+      frames[0].events.push(event);
+      index += 1;
+      continue;
+    }
+
+    const group: MatchEventRecord[] = [];
+    while (index < events.length && events[index].state_version === version) {
+      group.push(events[index]);
+      index += 1;
+    }
+
+    // Follow-up events are normally derived from the first one; those that carry their own
+    // detail (a new game's board) are applied as well.
+    const applied = group.every(
+      (entry, position) =>
+        (position > 0 && !details.has(entry.id)) ||
+        applyReplayEvent(state, entry, details.get(entry.id), frames, seeds)
+    );
+    if (!applied) {
+      complete = false;
+      break;
+    }
+    frames.push({ version, events: group, state: structuredClone(state) });
+  }
+
+  return { frames, complete };
+}
+
+/**
+ * The order a published shuffle started from: the unshuffled setup logged with the event that
+ * seated a deck, or the zone as it stood in the frame before a mid-game shuffle.
+ */
+function preShuffleOrder(
+  event: MatchEventRecord,
+  shuffle: PublishedShuffle,
+  position: number,
+  detail: Record<string, unknown> | undefined,
+  frames: ReplayFrame[]
+): string[] | null {
+  const zone = shuffle.zone ?? (event.payload?.zone === "runeDeck" ? "runeDeck" : "deck");
+  const fromSetup = (setup: unknown) =>
+    setup ? (setup as PlayerSetup).zones[zone].map((card) => card.uid) : null;
+
+  switch (event.type) {
+    case "match_created":
+    case "player_joined":
+      return fromSetup(detail?.setup);
+    case "game_started": {
+      // Both decks were dealt from list order: p1's deck and runes first, then p2's.
+      const setups = detail?.setups as Record<PlayerSlot, PlayerSetup> | undefined;
+      return fromSetup(setups?.[position < 2 ? "p1" : "p2"]);
+    }
+    default: {
+      const slot = event.payload?.player;
+      const frameIndex = frames.findIndex((frame) => frame.events.some((entry) => entry.id === event.id));
+      if (frameIndex < 1 || (slot !== "p1" && slot !== "p2")) return null;
+      return frames[frameIndex - 1].state.players[slot].zones[zone].map((card) => card.uid);
+    }
+  }
+}
+
+/**
+ * Re-derives every published shuffle from its starting order and the revealed seed, then checks
+ * the result against the commitment, so a match only verifies if its shuffles were really driven
+ * by the seed. In a set each game has its own seed, revealed by that game's `match_ended`; `seed`
+ * covers the game still on the board.
+ */
+export function auditShuffles(
+  { events, details }: ReplayLog,
+  frames: ReplayFrame[],
+  seed: string
+): ShuffleAudit {
+  const shuffles: ShuffleAudit["shuffles"] = [];
+  let seedMatches = true;
+
+  // Split the log into games: each starts with the event that committed to its seed.
+  const games: MatchEventRecord[][] = [];
+  events.forEach((event) => {
+    if (event.type === "match_created" || event.type === "game_started" || games.length === 0) {
+      games.push([]);
+    }
+    games[games.length - 1].push(event);
+  });
+
+  games.forEach((gameEvents) => {
+    const ended = gameEvents.find((event) => event.type === "match_ended");
+    const gameSeed = typeof ended?.payload?.shuffleSeed === "string" ? ended.payload.shuffleSeed : seed;
+    const opening = gameEvents.find(
+      (event) => event.type === "match_created" || event.type === "game_started"
+    );
+    if (opening && opening.payload?.seedCommitment !== hashShuffleSeed(gameSeed)) {
+      seedMatches = false;
+    }
+
+    gameEvents.forEach((event) => {
+      const payload = event.payload ?? {};
+      const detail = details.get(event.id);
+      const published = (payload.shuffles ??
+        (payload.shuffle ? [payload.shuffle] : [])) as PublishedShuffle[];
+
+      published.forEach((shuffle, position) => {
+        const order = preShuffleOrder(event, shuffle, position, detail, frames);
+        if (order) {
+          seededShuffle(order, gameSeed, shuffle.index);
+        }
+        const verified =
+          Boolean(order) && shuffleCommitment(gameSeed, shuffle.index, order ?? []) === shuffle.commitment;
+        shuffles.push({ eventId: event.id, index: shuffle.index, verified });
+      });
+    });
+  });
+
+  return { seed, seedMatches, shuffles };
+}
@@ -0,0 +1,230 @@
+import { validateDeckRules } from "@/src/lib/decks";
+import {
+  assignPlayerTwo,
+  createInitialMatchState,
+  shuffleOpeningDecks,
+  startOpening,
+  type PlayerSetup,
+  type ShuffleRecord,
+} from "@/src/lib/matchState";
+import type { DeckCardEntry } from "@/src/types/deck";
+import type { MatchState, PlayerSlot, SetState, SideboardSwap } from "@/src/types/match";
+
+const MAX_SWAPS = 8;
+
+export function normalizeBestOf(value: unknown): SetState["bestOf"] {
+  return value === 3 ? 3 : 1;
+}
+
+// Only what a game needs to rebuild the deck; catalog payloads stay out of match state.
+function toDecklist(cards: DeckCardEntry[]): DeckCardEntry[] {
+  return cards.map(
+    ({ cardId, cardName, cardPublicCode, quantity, section, cardDomains, cardSupertype, cardType }) => ({
+      cardId,
+      cardName,
+      cardPublicCode,
+      quantity,
+      section,
+      cardDomains,
+      cardSupertype,
+      cardType,
+    })
+  );
+}
+
+export function createSetState(bestOf: SetState["bestOf"], hostCards: DeckCardEntry[]): SetState {
+  return {
+    bestOf,
+    game: 1,
+    results: [],
+    decklists: { p1: toDecklist(hostCards), p2: [] },
+    sideboard: null,
+  };
+}
+
+export function registerDecklist(state: MatchState, slot: PlayerSlot, cards: DeckCardEntry[]) {
+  if (state.set) {
+    state.set.decklists[slot] = toDecklist(cards);
+  }
+}
+
+function winsFor(set: SetState, slot: PlayerSlot) {
+  return set.results.filter((result) => result.winner === slot).length;
+}
+
+/** The player who has taken a majority of the set's games, if anyone has yet. */
+export function setWinner(set: SetState): PlayerSlot | null {
+  const needed = Math.floor(set.bestOf / 2) + 1;
+  if (winsFor(set, "p1") >= needed) return "p1";
+  if (winsFor(set, "p2") >= needed) return "p2";
+  return null;
+}
+
+/**
+ * Records a finished game. If the set goes on, sideboarding opens with the loser choosing who
+ * plays first in the next game. Returns the set winner once the set is decided.
+ */
+export function recordGameResult(state: MatchState, winner: PlayerSlot) {
+  const set = state.set;
+  if (!set) return winner;
+
+  set.results.push({
+    game: set.game,
+    winner,
+    points: { p1: state.players.p1.points, p2: state.players.p2.points },
+  });
+
+  const decided = setWinner(set);
+  if (!decided) {
+    set.sideboard = {
+      chooser: winner === "p1" ? "p2" : "p1",
+      firstPlayer: null,
+      choices: {
+        p1: { lockedIn: false, swaps: [] },
+        p2: { lockedIn: false, swaps: [] },
+      },
+    };
+  }
+  return decided;
+}
+
+/**
+ * Applies 1:1 main/side swaps to a registered list. Every swap is checked against the copies the
+ * original list still has available, and the result must pass the usual deck rules.
+ */
+export function applySideboardSwaps(
+  original: DeckCardEntry[],
+  swaps: SideboardSwap[]
+): { cards: DeckCardEntry[] } | { error: string } {
+  if (swaps.length > MAX_SWAPS) {
+    return { error: `You can swap at most ${MAX_SWAPS} cards` };
+  }
+
+  const cards = original.map((entry) => ({ ...entry }));
+  const take = (section: "main" | "side", cardId: string) => {
+    const entry = cards.find(
+      (card) => card.section === section && card.cardId === cardId && card.quantity > 0
+    );
+    if (!entry) return null;
+    entry.quantity -= 1;
+    return entry;
+  };
+  const put = (section: "main" | "side", source: DeckCardEntry) => {
+    const entry = cards.find((card) => card.section === section && card.cardId === source.cardId);
+    if (entry) {
+      entry.quantity += 1;
+    } else {
+      cards.push({ ...source, section, quantity: 1 });
+    }
+  };
+
+  for (const swap of swaps) {
+    const out = take("main", swap.out);
+    const incoming = take("side", swap.in);
+    if (!out || !incoming) {
+      return { error: "Swaps must trade a main-deck card for a side-deck card from your list" };
+    }
+    put("side", out);
+    put("main", incoming);
+  }
+
+  const result = cards.filter((card) => card.quantity > 0);
+  const ruleCheck = validateDeckRules(result);
+  if (ruleCheck.errors.length > 0) {
+    return { error: ruleCheck.errors.join(" ") };
+  }
+  return { cards: result };
+}
+
+function toSwapList(value: unknown): SideboardSwap[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(
+      (swap): swap is SideboardSwap =>
+        Boolean(swap) && typeof swap.out === "string" && typeof swap.in === "string"
+    )
+    .map((swap) => ({ out: swap.out, in: swap.in }));
+}
+
+/**
+ * Locks in a player's sideboarding for the next game. The chooser also names the first player.
+ * Mutates `state` and returns an error message when the choice is not allowed.
+ */
+export function lockSideboard(
+  state: MatchState,
+  slot: PlayerSlot,
+  payload: { swaps?: unknown; firstPlayer?: unknown }
+): { error: string; status: number } | null {
+  const sideboard = state.set?.sideboard;
+  if (!state.set || !sideboard) {
+    return { error: "There is no game to sideboard for", status: 409 };
+  }
+  if (sideboard.choices[slot].lockedIn) {
+    return { error: "You have already locked in", status: 409 };
+  }
+
+  const swaps = toSwapList(payload.swaps);
+  const checked = applySideboardSwaps(state.set.decklists[slot], swaps);
+  if ("error" in checked) {
+    return { error: checked.error, status: 400 };
+  }
+
+  if (slot === sideboard.chooser) {
+    if (payload.firstPlayer !== "p1" && payload.firstPlayer !== "p2") {
+      return { error: "Choose who plays first in the next game", status: 400 };
+    }
+    sideboard.firstPlayer = payload.firstPlayer;
+  }
+
+  sideboard.choices[slot] = { lockedIn: true, swaps };
+  return null;
+}
+
+export function sideboardingComplete(state: MatchState) {
+  const sideboard = state.set?.sideboard;
+  return Boolean(sideboard && sideboard.choices.p1.lockedIn && sideboard.choices.p2.lockedIn);
+}
+
+/** Each player's deck for the next game: their registered list with their locked-in swaps. */
+export function nextGameDecklists(state: MatchState): Record<PlayerSlot, DeckCardEntry[]> | null {
+  const set = state.set;
+  if (!set?.sideboard) return null;
+
+  const lists = {} as Record<PlayerSlot, DeckCardEntry[]>;
+  for (const slot of ["p1", "p2"] as PlayerSlot[]) {
+    const result = applySideboardSwaps(set.decklists[slot], set.sideboard.choices[slot].swaps);
+    if ("error" in result) return null;
+    lists[slot] = result.cards;
+  }
+  return lists;
+}
+
+/**
+ * Builds a fresh board for the next game of the set, with a new shuffle seed, both decks
+ * shuffled, opening hands dealt and the chosen player going first. Replays pass the game's
+ * revealed `seed` to rebuild the exact same board.
+ */
+export function buildNextGameState(
+  state: MatchState,
+  setups: Record<PlayerSlot, PlayerSetup>,
+  seed?: string
+): { state: MatchState; shuffles: ShuffleRecord[] } | null {
+  const set = state.set;
+  const p1 = state.players.p1.id;
+  const p2 = state.players.p2.id;
+  if (!set?.sideboard || !p1 || !p2) return null;
+
+  const firstPlayer = set.sideboard.firstPlayer ?? set.sideboard.chooser;
+  const next = createInitialMatchState(p1, setups.p1, state.victoryTarget);
+  if (seed) {
+    next.shuffle = { seed, count: 0 };
+  }
+  assignPlayerTwo(next, p2, setups.p2);
+  const shuffles = [...shuffleOpeningDecks(next, "p1"), ...shuffleOpeningDecks(next, "p2")];
+  startOpening(next);
+  next.turn = firstPlayer;
+  next.firstPlayer = firstPlayer;
+  next.autoSteps = { ...state.autoSteps };
+  next.set = { ...set, game: set.game + 1, sideboard: null };
+  return { state: next, shuffles };
+}
@@ -0,0 +1,210 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  DEFAULT_VICTORY_TARGET,
+  assignPlayerTwo,
+  buildPlayerSetup,
+  createInitialMatchState,
+  shuffleOpeningDecks,
+  startOpening,
+  type CardImageLookup,
+} from "@/src/lib/matchState";
+import { hashShuffleSeed } from "@/src/lib/matchShuffle";
+import { createSetState, registerDecklist } from "@/src/lib/matchSets";
+import { commitMatchState, loadMatchState, MAX_COMMIT_ATTEMPTS } from "@/src/lib/matchStore";
+import type { DeckSummary } from "@/src/types/deck";
+import type { SetState } from "@/src/types/match";
+
+interface SeatDeck {
+  deck: DeckSummary;
+  images: CardImageLookup;
+}
+
+export interface MatchOptions {
+  spectatorsAllowed: boolean;
+  isPublic: boolean;
+  victoryTarget: number;
+  bestOf: SetState["bestOf"];
+}
+
+export const DEFAULT_MATCH_OPTIONS: MatchOptions = {
+  spectatorsAllowed: true,
+  isPublic: false,
+  victoryTarget: DEFAULT_VICTORY_TARGET,
+  bestOf: 1,
+};
+
+function generateCode(length = 6) {
+  const alphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+  let value = "";
+  for (let i = 0; i < length; i += 1) {
+    value += alphabet[Math.floor(Math.random() * alphabet.length)];
+  }
+  return value;
+}
+
+/**
+ * Creates a match hosted by `hostId`: the `matches` row, the host's shuffled opening state and the
+ * `match_created` log entry with the seed commitment.
+ */
+export async function createMatch(
+  admin: SupabaseClient,
+  hostId: string,
+  { deck, images }: SeatDeck,
+  options: MatchOptions
+): Promise<{ match: { id: string; code: string } } | { error: string }> {
+  let code = "";
+  let attempt = 0;
+  const maxAttempts = 5;
+
+  while (attempt < maxAttempts) {
+    code = generateCode(6 + (attempt > 1 ? 1 : 0));
+    const { data: existing } = await admin
+      .from("matches")
+      .select("id")
+      .eq("code", code)
+      .maybeSingle();
+
+    if (!existing) break;
+    attempt += 1;
+  }
+
+  if (!code) {
+    return { error: "Could not generate match code" };
+  }
+
+  const { data: match, error: matchError } = await admin
+    .from("matches")
+    .insert({
+      code,
+      player1_id: hostId,
+      player1_deck_id: deck.id,
+      spectators_allowed: options.spectatorsAllowed,
+      is_public: options.isPublic,
+      best_of: options.bestOf,
+    })
+    .select("id, code")
+    .single();
+
+  if (matchError || !match) {
+    return { error: matchError?.message ?? "Failed to create match" };
+  }
+
+  const setup = buildPlayerSetup(deck.cards, "p1", images);
+  const initialState = createInitialMatchState(hostId, structuredClone(setup), options.victoryTarget);
+  initialState.set = createSetState(options.bestOf, deck.cards);
+  const openingShuffles = shuffleOpeningDecks(initialState, "p1");
+  const { error: stateError } = await admin
+    .from("match_state")
+    .insert({ match_id: match.id, state: initialState });
+
+  if (stateError) {
+    await admin.from("matches").delete().eq("id", match.id);
+    return { error: stateError.message };
+  }
+
+  const { data: created } = await admin
+    .from("match_events")
+    .insert({
+      match_id: match.id,
+      player_id: hostId,
+      type: "match_created",
+      payload: {
+        spectatorsAllowed: options.spectatorsAllowed,
+        victoryTarget: options.victoryTarget,
+        bestOf: options.bestOf,
+        deckName: deck.name,
+        seedCommitment: initialState.shuffle.seed ? hashShuffleSeed(initialState.shuffle.seed) : null,
+        shuffles: openingShuffles.map(({ zone, index, commitment }) => ({ zone, index, commitment })),
+      },
+      state_version: 0,
+    })
+    .select("id")
+    .single();
+
+  // Like `player_joined`, keep the list-order setup so the opening shuffles can be re-derived.
+  if (created) {
+    await admin.from("match_event_details").insert({ event_id: created.id, detail: { setup } });
+  }
+
+  return { match };
+}
+
+/**
+ * Seats `userId` as player two: claims the seat on `matches`, then shuffles their deck into the
+ * state and deals both opening hands. The claim only succeeds while the seat is empty, so two
+ * players racing for an open table can't both get in. The seat is released again if the state
+ * never commits.
+ */
+export async function seatPlayerTwo(
+  admin: SupabaseClient,
+  matchId: string,
+  userId: string,
+  { deck, images }: SeatDeck
+): Promise<{ error: string; status: number } | null> {
+  const { data: claimed, error: updateError } = await admin
+    .from("matches")
+    .update({ player2_id: userId, player2_deck_id: deck.id })
+    .eq("id", matchId)
+    .is("player2_id", null)
+    .select("id");
+
+  if (updateError) {
+    return { error: updateError.message, status: 500 };
+  }
+
+  if (!claimed || claimed.length === 0) {
+    return { error: "Match is already full", status: 409 };
+  }
+
+  const release = () =>
+    admin
+      .from("matches")
+      .update({ player2_id: null, player2_deck_id: null })
+      .eq("id", matchId)
+      .eq("player2_id", userId);
+
+  const setup = buildPlayerSetup(deck.cards, "p2", images);
+  let joined = false;
+
+  for (let attempt = 0; attempt < MAX_COMMIT_ATTEMPTS && !joined; attempt += 1) {
+    const loaded = await loadMatchState(admin, matchId);
+    if ("error" in loaded) {
+      await release();
+      return { error: loaded.error, status: 500 };
+    }
+
+    assignPlayerTwo(loaded.state, userId, structuredClone(setup));
+    registerDecklist(loaded.state, "p2", deck.cards);
+    const shuffles = shuffleOpeningDecks(loaded.state, "p2");
+    startOpening(loaded.state);
+    const commit = await commitMatchState(admin, matchId, loaded.version, loaded.state, [
+      {
+        player_id: userId,
+        type: "player_joined",
+        payload: {
+          slot: "p2",
+          deckName: deck.name,
+          shuffles: shuffles.map(({ zone, index, commitment }) => ({ zone, index, commitment })),
+        },
+        detail: {
+          setup,
+          orders: shuffles.map((shuffle) => shuffle.order),
+          decklist: deck.cards,
+        },
+      },
+    ]);
+
+    if ("error" in commit) {
+      await release();
+      return { error: commit.error, status: 500 };
+    }
+    joined = "version" in commit;
+  }
+
+  if (!joined) {
+    await release();
+    return { error: "The match is busy, try joining again", status: 409 };
+  }
+
+  return null;
+}
@@ -0,0 +1,56 @@
+import { createHash, createHmac, randomBytes } from "node:crypto";
+
+export function createShuffleSeed() {
+  return randomBytes(32).toString("hex");
+}
+
+function sha256(value: string) {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/** Published when the match starts so players can later check the revealed seed was never swapped. */
+export function hashShuffleSeed(seed: string) {
+  return sha256(seed);
+}
+
+/** Binds one shuffle's outcome to the match seed without revealing either. */
+export function shuffleCommitment(seed: string, index: number, order: string[]) {
+  return sha256(`${seed}:${index}:${order.join(",")}`);
+}
+
+// HMAC-SHA256 in counter mode: a deterministic byte stream per (seed, shuffle index).
+function createByteStream(seed: string, index: number) {
+  let block = 0;
+  let buffer = Buffer.alloc(0);
+  let offset = 0;
+
+  return function nextUint32() {
+    if (offset + 4 > buffer.length) {
+      buffer = createHmac("sha256", seed).update(`${index}:${block}`).digest();
+      block += 1;
+      offset = 0;
+    }
+    const value = buffer.readUInt32BE(offset);
+    offset += 4;
+    return value;
+  };
+}
+
+/**
+ * Fisher-Yates driven by the match seed. The same seed, index and starting order always give the
+ * same result, which is what lets anyone re-derive a shuffle once the seed is revealed.
+ */
+export function seededShuffle<T>(items: T[], seed: string, index: number) {
+  const nextUint32 = createByteStream(seed, index);
+  for (let i = items.length - 1; i > 0; i -= 1) {
+    const range = i + 1;
+    // Rejection sampling keeps every position equally likely.
+    const limit = 0x100000000 - (0x100000000 % range);
+    let value = nextUint32();
+    while (value >= limit) {
+      value = nextUint32();
+    }
+    const j = value % range;
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+}
@@ -1,79 +1,258 @@
-import { MatchCard, MatchState, PlayerSlot, ZoneKey } from "@/src/types/match";
+import { createShuffleSeed, seededShuffle, shuffleCommitment } from "@/src/lib/matchShuffle";
+import type { DeckCardEntry } from "@/src/types/deck";
+import {
+  AutoStepSettings,
+  BattlefieldZoneKey,
+  ChainItem,
+  MatchCard,
+  MatchPhase,
+  MatchState,
+  PlayerSlot,
+  PlayerState,
+  PlayerZones,
+  TokenDefinition,
+  ZoneKey,
+} from "@/src/types/match";
 
-const ZONES: ZoneKey[] = ["deck", "hand", "battlefield", "discard"];
+export const BATTLEFIELD_ZONES: BattlefieldZoneKey[] = ["battlefield1", "battlefield2", "battlefield3"];
 
-function randomCardName(index: number) {
-  return `Card ${index + 1}`;
+const ZONES: ZoneKey[] = [
+  "deck",
+  "hand",
+  "base",
+  "discard",
+  "banish",
+  "legend",
+  "champion",
+  "runeDeck",
+  "runes",
+  ...BATTLEFIELD_ZONES,
+];
+
+// Zones where cards are in play; anything else (hand, decks, trash, banish) resets per-card state.
+const BOARD_ZONES: ZoneKey[] = ["base", "legend", "champion", "runes", ...BATTLEFIELD_ZONES];
+
+export function isBoardZone(zone: ZoneKey) {
+  return BOARD_ZONES.includes(zone);
+}
+
+export const DEFAULT_VICTORY_TARGET = 8;
+
+export const MATCH_PHASES: MatchPhase[] = ["awaken", "beginning", "channel", "draw", "action", "end"];
+
+export const OPENING_HAND_SIZE = 4;
+export const MAX_MULLIGAN_CARDS = 2;
+
+export const DEFAULT_AUTO_STEPS: AutoStepSettings = { readyOnAwaken: true, channelRunes: 2, drawCards: 1 };
+
+export type CardImageLookup = Record<string, string | null>;
+
+export type PlayerSetup = Pick<PlayerState, "zones" | "battlefields">;
+
+/** What happened when a phase began, including any automatic steps. */
+export interface PhaseChange {
+  turn: PlayerSlot;
+  turnNumber: number;
+  phase: MatchPhase;
+  readied: number;
+  channeled: number;
+  drew: number;
+}
+
+export interface ShuffleRecord {
+  zone: "deck" | "runeDeck";
+  index: number;
+  order: string[];
+  commitment: string;
 }
 
-function createPlaceholderDeck(size = 40): MatchCard[] {
-  return Array.from({ length: size }, (_, idx) => ({
+function createMatchCard(entry: DeckCardEntry, owner: PlayerSlot, images: CardImageLookup): MatchCard {
+  return {
     uid: crypto.randomUUID(),
-    name: randomCardName(idx),
-    img: null,
-  }));
+    cardId: entry.cardId,
+    name: entry.cardName,
+    publicCode: entry.cardPublicCode ?? null,
+    img: images[entry.cardId] ?? null,
+    owner,
+    exhausted: false,
+    faceDown: false,
+    counters: {},
+    attachments: [],
+  };
+}
+
+export function expandDeckEntries(
+  entries: DeckCardEntry[],
+  owner: PlayerSlot,
+  images: CardImageLookup = {}
+): MatchCard[] {
+  return entries.flatMap((entry) =>
+    Array.from({ length: entry.quantity }, () => createMatchCard(entry, owner, images))
+  );
+}
+
+function createEmptyZones(): PlayerZones {
+  return ZONES.reduce((zones, zone) => {
+    zones[zone] = [];
+    return zones;
+  }, {} as PlayerZones);
+}
+
+function createEmptyBattlefields(): PlayerState["battlefields"] {
+  return {
+    battlefield1: { card: null, controller: null },
+    battlefield2: { card: null, controller: null },
+    battlefield3: { card: null, controller: null },
+  };
+}
+
+/**
+ * Lays a validated deck out on the mat: the legend and its namesake champion start in their
+ * own zones and each battlefield gets its own zone. Decks come out in list order; shuffle them
+ * with `shuffleOpeningDecks` once the player is seated so the match seed drives the order.
+ */
+export function buildPlayerSetup(
+  entries: DeckCardEntry[],
+  owner: PlayerSlot,
+  images: CardImageLookup = {}
+): PlayerSetup {
+  const zones = createEmptyZones();
+  const battlefields = createEmptyBattlefields();
+  const bySection = (section: DeckCardEntry["section"]) =>
+    expandDeckEntries(
+      entries.filter((entry) => entry.section === section),
+      owner,
+      images
+    );
+
+  const [legend] = bySection("legend");
+  if (legend) {
+    zones.legend.push(legend);
+  }
+
+  const mainDeck = bySection("main");
+  const championIndex = legend ? mainDeck.findIndex((card) => card.name === legend.name) : -1;
+  if (championIndex !== -1) {
+    zones.champion.push(...mainDeck.splice(championIndex, 1));
+  }
+  zones.deck = mainDeck;
+  zones.runeDeck = bySection("runes");
+
+  bySection("battlefields")
+    .slice(0, BATTLEFIELD_ZONES.length)
+    .forEach((card, index) => {
+      battlefields[BATTLEFIELD_ZONES[index]].card = card;
+    });
+
+  return { zones, battlefields };
+}
+
+function createPlayerState(playerId: string | null, setup?: PlayerSetup): PlayerState {
+  return {
+    id: playerId,
+    points: 0,
+    zones: setup?.zones ?? createEmptyZones(),
+    battlefields: setup?.battlefields ?? createEmptyBattlefields(),
+    peek: null,
+  };
 }
 
 export function createInitialMatchState(
   playerOneId: string,
-  playerTwoId: string | null
+  playerOneSetup: PlayerSetup,
+  victoryTarget = DEFAULT_VICTORY_TARGET
 ): MatchState {
   const now = new Date().toISOString();
 
   return {
     players: {
-      p1: {
-        id: playerOneId,
-        life: 20,
-        zones: {
-          deck: createPlaceholderDeck(),
-          hand: [],
-          battlefield: [],
-          discard: [],
-        },
-      },
-      p2: {
-        id: playerTwoId,
-        life: 20,
-        zones: {
-          deck: createPlaceholderDeck(),
-          hand: [],
-          battlefield: [],
-          discard: [],
-        },
-      },
+      p1: createPlayerState(playerOneId, playerOneSetup),
+      p2: createPlayerState(null),
     },
     turn: "p1",
-    phase: "main",
+    turnNumber: 1,
+    firstPlayer: "p1",
+    phase: "awaken",
+    autoSteps: { ...DEFAULT_AUTO_STEPS },
+    opening: null,
+    victoryTarget,
+    winner: null,
+    pendingUndo: null,
+    chain: null,
+    set: null,
+    shuffle: { seed: createShuffleSeed(), count: 0 },
     createdAt: now,
   };
 }
 
-export function assignPlayerTwo(state: MatchState, playerTwoId: string) {
-  state.players.p2.id = playerTwoId;
+export function assignPlayerTwo(state: MatchState, playerTwoId: string, playerTwoSetup: PlayerSetup) {
+  state.players.p2 = createPlayerState(playerTwoId, playerTwoSetup);
 }
 
-function shuffleArray<T>(array: T[]) {
-  for (let i = array.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [array[i], array[j]] = [array[j], array[i]];
+// Lays cards out in a recorded uid order; anything the order doesn't mention stays at the end.
+function arrangeByUid(cards: MatchCard[], order: string[]) {
+  const rank = new Map(order.map((uid, index) => [uid, index]));
+  cards.sort((a, b) => (rank.get(a.uid) ?? order.length) - (rank.get(b.uid) ?? order.length));
+}
+
+/**
+ * Shuffles a deck with the match seed, or replays a previous shuffle when `order` is given.
+ * Returns the shuffle's index, resulting uid order and the commitment to publish for it.
+ */
+export function shuffleDeck(
+  state: MatchState,
+  slot: PlayerSlot,
+  zone: "deck" | "runeDeck" = "deck",
+  order?: string[]
+): ShuffleRecord {
+  // Matches created before seeded shuffles get a seed the first time they shuffle.
+  state.shuffle ??= { seed: null, count: 0 };
+  state.shuffle.seed ??= createShuffleSeed();
+  const { seed } = state.shuffle;
+  const index = state.shuffle.count;
+  state.shuffle.count += 1;
+
+  const cards = state.players[slot].zones[zone];
+  if (order) {
+    arrangeByUid(cards, order);
+  } else {
+    seededShuffle(cards, seed, index);
   }
+
+  const result = cards.map((card) => card.uid);
+  return { zone, index, order: result, commitment: shuffleCommitment(seed, index, result) };
 }
 
-export function shuffleDeck(state: MatchState, slot: PlayerSlot) {
-  const deck = state.players[slot].zones.deck;
-  shuffleArray(deck);
+/** Shuffles a newly seated player's main deck and rune deck, in that order. */
+export function shuffleOpeningDecks(state: MatchState, slot: PlayerSlot, orders: string[][] = []) {
+  return [shuffleDeck(state, slot, "deck", orders[0]), shuffleDeck(state, slot, "runeDeck", orders[1])];
 }
 
 export function drawCards(state: MatchState, slot: PlayerSlot, count = 1) {
   const player = state.players[slot];
+  let drawn = 0;
   for (let i = 0; i < count; i += 1) {
     const card = player.zones.deck.shift();
     if (!card) break;
     player.zones.hand.unshift(card);
+    drawn += 1;
   }
+  return drawn;
 }
 
+export function channelRunes(state: MatchState, slot: PlayerSlot, count = 1) {
+  const zones = state.players[slot].zones;
+  let channeled = 0;
+  for (let i = 0; i < count; i += 1) {
+    const rune = zones.runeDeck.shift();
+    if (!rune) break;
+    zones.runes.push(rune);
+    channeled += 1;
+  }
+  return channeled;
+}
+
+/** Moves a card between zones. Returns false when the card was a token and left play for good. */
 export function moveCardBetweenZones(
   state: MatchState,
   from: { slot: PlayerSlot; zone: ZoneKey },
@@ -83,35 +262,363 @@ export function moveCardBetweenZones(
 ) {
   const sourceZone = state.players[from.slot].zones[from.zone];
   const cardIndex = sourceZone.findIndex((card) => card.uid === cardUid);
-  if (cardIndex === -1) return;
+  if (cardIndex === -1) return true;
 
   const [card] = sourceZone.splice(cardIndex, 1);
+  if (!BOARD_ZONES.includes(to.zone)) {
+    leavePlay(state, card);
+    if (card.token) return false;
+  }
   const destinationZone = state.players[to.slot].zones[to.zone];
   if (position === "bottom") destinationZone.push(card);
   else destinationZone.unshift(card);
+  return true;
+}
+
+/** Puts a freshly generated token into play. Tokens only exist on the board. */
+export function createToken(
+  state: MatchState,
+  slot: PlayerSlot,
+  zone: ZoneKey,
+  definition: TokenDefinition,
+  uid: string = crypto.randomUUID()
+) {
+  const token: MatchCard = {
+    uid,
+    cardId: definition.cardId,
+    name: definition.name,
+    publicCode: definition.publicCode,
+    img: definition.img,
+    owner: slot,
+    exhausted: false,
+    faceDown: false,
+    counters: {},
+    attachments: [],
+    token: true,
+  };
+  state.players[slot].zones[zone].unshift(token);
+  return token;
+}
+
+function leavePlay(state: MatchState, card: MatchCard) {
+  card.attachments.forEach((attachment) => {
+    state.players[attachment.owner].zones.base.unshift(attachment);
+  });
+  card.attachments = [];
+  card.exhausted = false;
+  card.faceDown = false;
+  card.counters = {};
+}
+
+export function findCard(state: MatchState, slot: PlayerSlot, zone: ZoneKey, cardUid: string) {
+  return state.players[slot].zones[zone].find((card) => card.uid === cardUid) ?? null;
+}
+
+export function setCardExhausted(card: MatchCard, exhausted: boolean) {
+  card.exhausted = exhausted;
+}
+
+export function setCardFaceDown(card: MatchCard, faceDown: boolean) {
+  card.faceDown = faceDown;
+}
+
+export function adjustCardCounter(card: MatchCard, counter: string, delta: number) {
+  const next = (card.counters[counter] ?? 0) + delta;
+  if (next <= 0) {
+    delete card.counters[counter];
+  } else {
+    card.counters[counter] = next;
+  }
+  return next;
+}
+
+export function attachCard(
+  state: MatchState,
+  from: { slot: PlayerSlot; zone: ZoneKey },
+  cardUid: string,
+  host: MatchCard
+) {
+  const sourceZone = state.players[from.slot].zones[from.zone];
+  const cardIndex = sourceZone.findIndex((card) => card.uid === cardUid);
+  if (cardIndex === -1) return;
+
+  const [card] = sourceZone.splice(cardIndex, 1);
+  // Attachments never carry their own attachments; hand them back to their owners first.
+  card.attachments.forEach((attachment) => {
+    state.players[attachment.owner].zones.base.unshift(attachment);
+  });
+  card.attachments = [];
+  host.attachments.push(card);
+}
+
+export function detachCard(
+  state: MatchState,
+  host: MatchCard,
+  cardUid: string,
+  to: { slot: PlayerSlot; zone: ZoneKey }
+) {
+  const index = host.attachments.findIndex((card) => card.uid === cardUid);
+  if (index === -1) return true;
+
+  const [card] = host.attachments.splice(index, 1);
+  if (!BOARD_ZONES.includes(to.zone)) {
+    leavePlay(state, card);
+    if (card.token) return false;
+  }
+  state.players[to.slot].zones[to.zone].unshift(card);
+  return true;
 }
 
-export function mulliganHand(state: MatchState, slot: PlayerSlot) {
+/** Starts a private look at the top `count` cards of a deck. Returns how many were seen. */
+export function peekCards(state: MatchState, slot: PlayerSlot, zone: "deck" | "runeDeck", count: number) {
   const player = state.players[slot];
-  const hand = player.zones.hand;
-  while (hand.length) {
-    const card = hand.shift();
-    if (card) {
-      player.zones.deck.unshift(card);
-    }
+  const uids = player.zones[zone].slice(0, count).map((card) => card.uid);
+  player.peek = uids.length ? { zone, uids } : null;
+  return uids.length;
+}
+
+/**
+ * Finishes a peek: `top` goes back on top in the given order and `bottom` goes under the deck.
+ * Together they must account for every peeked card still in the deck.
+ */
+export function reorderPeekedCards(state: MatchState, slot: PlayerSlot, top: string[], bottom: string[]) {
+  const player = state.players[slot];
+  const peek = player.peek;
+  if (!peek) return false;
+
+  const cards = player.zones[peek.zone];
+  const remaining = peek.uids.filter((uid) => cards.some((card) => card.uid === uid));
+  const chosen = [...top, ...bottom];
+  const matches =
+    chosen.length === remaining.length &&
+    new Set(chosen).size === chosen.length &&
+    chosen.every((uid) => remaining.includes(uid));
+  if (!matches) return false;
+
+  const pick = (uid: string) => {
+    const index = cards.findIndex((card) => card.uid === uid);
+    return cards.splice(index, 1)[0];
+  };
+  const topCards = top.map(pick);
+  const bottomCards = bottom.map(pick);
+  cards.unshift(...topCards);
+  cards.push(...bottomCards);
+  player.peek = null;
+  return true;
+}
+
+/**
+ * Starts the opening-hand phase once both seats are filled: each player draws their opening hand
+ * and gets one chance to recycle cards before turn one.
+ */
+export function startOpening(state: MatchState) {
+  drawCards(state, "p1", OPENING_HAND_SIZE);
+  drawCards(state, "p2", OPENING_HAND_SIZE);
+  state.opening = {
+    p1: { lockedIn: false, setAside: [] },
+    p2: { lockedIn: false, setAside: [] },
+  };
+}
+
+/**
+ * Riftbound mulligan: the chosen cards go to the bottom of the deck and the player draws the
+ * same number of replacements.
+ */
+export function mulliganHand(state: MatchState, slot: PlayerSlot, setAside: string[]) {
+  const zones = state.players[slot].zones;
+  const recycled = setAside
+    .map((uid) => zones.hand.findIndex((card) => card.uid === uid))
+    .filter((index) => index !== -1)
+    .sort((a, b) => b - a)
+    .map((index) => zones.hand.splice(index, 1)[0])
+    .reverse();
+  zones.deck.push(...recycled);
+  drawCards(state, slot, recycled.length);
+  return recycled.length;
+}
+
+/**
+ * Records a player's locked-in opening choice. Once both players have locked in, every choice is
+ * applied together and the opening phase ends; returns how many cards each player recycled then.
+ */
+export function lockOpeningChoice(
+  state: MatchState,
+  slot: PlayerSlot,
+  setAside: string[]
+): Record<PlayerSlot, number> | null {
+  const opening = state.opening;
+  if (!opening) return null;
+
+  opening[slot] = { lockedIn: true, setAside };
+  if (!opening.p1.lockedIn || !opening.p2.lockedIn) {
+    return null;
   }
-  shuffleDeck(state, slot);
+
+  const recycled = {
+    p1: mulliganHand(state, "p1", opening.p1.setAside),
+    p2: mulliganHand(state, "p2", opening.p2.setAside),
+  };
+  state.opening = null;
+  return recycled;
+}
+
+function opponentOf(slot: PlayerSlot): PlayerSlot {
+  return slot === "p1" ? "p2" : "p1";
 }
 
-export function adjustLifeTotal(state: MatchState, slot: PlayerSlot, delta: number) {
-  state.players[slot].life += delta;
+/**
+ * Puts an item on the chain, opening one if needed, and hands priority to the other player so
+ * they can pass or respond.
+ */
+export function addToChain(
+  state: MatchState,
+  slot: PlayerSlot,
+  entry: Pick<ChainItem, "label" | "cardUid" | "cardName">
+) {
+  const chain = state.chain ?? { items: [], priority: slot, nextId: 1 };
+  const item: ChainItem = { id: chain.nextId, controller: slot, ...entry };
+  chain.items.push(item);
+  chain.nextId += 1;
+  chain.priority = opponentOf(slot);
+  state.chain = chain;
+  return item;
 }
 
-export function endTurn(state: MatchState) {
+/**
+ * The priority holder passes: the newest item resolves and the opponent of whoever controls the
+ * next item gets the chance to respond to it. The chain closes once it is empty.
+ */
+export function passPriority(state: MatchState) {
+  const chain = state.chain;
+  if (!chain) return null;
+
+  const resolved = chain.items.pop() ?? null;
+  const next = chain.items[chain.items.length - 1];
+  if (next) {
+    chain.priority = opponentOf(next.controller);
+  } else {
+    state.chain = null;
+  }
+  return resolved;
+}
+
+/**
+ * Adjusts a player's score and flags the first player to reach the victory target.
+ * Returns the winner only when this change decided the match.
+ */
+export function scorePoints(state: MatchState, slot: PlayerSlot, delta: number): PlayerSlot | null {
+  const player = state.players[slot];
+  player.points = Math.max(0, player.points + delta);
+
+  if (!state.winner && player.points >= state.victoryTarget) {
+    state.winner = slot;
+    return slot;
+  }
+  return null;
+}
+
+export function conquerBattlefield(
+  state: MatchState,
+  battlefield: { slot: PlayerSlot; zone: BattlefieldZoneKey },
+  conqueror: PlayerSlot
+) {
+  state.players[battlefield.slot].battlefields[battlefield.zone].controller = conqueror;
+  return scorePoints(state, conqueror, 1);
+}
+
+export function holdBattlefield(state: MatchState, battlefield: { slot: PlayerSlot; zone: BattlefieldZoneKey }) {
+  const controller = state.players[battlefield.slot].battlefields[battlefield.zone].controller;
+  if (!controller) return null;
+  return scorePoints(state, controller, 1);
+}
+
+// Readies every exhausted card the player owns, wherever it sits on the board.
+function readyOwnedCards(state: MatchState, slot: PlayerSlot) {
+  let readied = 0;
+  const visit = (card: MatchCard) => {
+    if (card.owner === slot && card.exhausted) {
+      card.exhausted = false;
+      readied += 1;
+    }
+    card.attachments.forEach(visit);
+  };
+
+  (["p1", "p2"] as PlayerSlot[]).forEach((owner) => {
+    const player = state.players[owner];
+    BOARD_ZONES.forEach((zone) => player.zones[zone].forEach(visit));
+  });
+  return readied;
+}
+
+function enterPhase(state: MatchState, phase: MatchPhase): PhaseChange {
+  const autoSteps = state.autoSteps ?? DEFAULT_AUTO_STEPS;
+  const change: PhaseChange = {
+    turn: state.turn,
+    turnNumber: state.turnNumber,
+    phase,
+    readied: 0,
+    channeled: 0,
+    drew: 0,
+  };
+
+  state.phase = phase;
+  if (phase === "awaken" && autoSteps.readyOnAwaken) {
+    change.readied = readyOwnedCards(state, state.turn);
+  }
+  if (phase === "channel" && autoSteps.channelRunes > 0) {
+    change.channeled = channelRunes(state, state.turn, autoSteps.channelRunes);
+  }
+  if (phase === "draw" && autoSteps.drawCards > 0) {
+    change.drew = drawCards(state, state.turn, autoSteps.drawCards);
+  }
+  return change;
+}
+
+/**
+ * Hands the turn to the other player and starts their awaken phase. Matches stored before typed
+ * phases have no turn counter, so it starts counting from the first pass.
+ */
+export function endTurn(state: MatchState): PhaseChange {
   state.turn = state.turn === "p1" ? "p2" : "p1";
-  state.phase = "main";
+  state.turnNumber = (state.turnNumber ?? 1) + 1;
+  return enterPhase(state, "awaken");
+}
+
+/** Moves to the next phase, or to the next player's turn after the end phase. */
+export function advancePhase(state: MatchState): PhaseChange {
+  // Legacy states still say "main", which is closest to the action phase.
+  const index = MATCH_PHASES.indexOf(state.phase);
+  const current = index === -1 ? MATCH_PHASES.indexOf("action") : index;
+  if (current === MATCH_PHASES.length - 1) {
+    return endTurn(state);
+  }
+  return enterPhase(state, MATCH_PHASES[current + 1]);
+}
+
+/**
+ * Picks who starts. Only allowed before the first turn has moved past its awaken phase and not
+ * while opening hands are being decided. Later games of a set keep the choice the previous
+ * game's loser made while sideboarding. Returns an error message, or null once applied.
+ */
+export function setFirstPlayer(state: MatchState, slot: PlayerSlot): string | null {
+  if (state.set && state.set.game > 1) {
+    return "The loser of the previous game already chose who goes first";
+  }
+  if (state.opening) {
+    return "The first player can't change while opening hands are being decided";
+  }
+  if (state.turnNumber !== 1 || state.phase !== "awaken") {
+    return "The first player can only be chosen before turn one starts";
+  }
+  state.firstPlayer = slot;
+  state.turn = slot;
+  return null;
 }
 
 export function validateZone(zone: string): zone is ZoneKey {
   return ZONES.includes(zone as ZoneKey);
 }
+
+export function validateBattlefieldZone(zone: string): zone is BattlefieldZoneKey {
+  return BATTLEFIELD_ZONES.includes(zone as BattlefieldZoneKey);
+}
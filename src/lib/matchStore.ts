@@ -0,0 +1,76 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { MatchEventDraft } from "@/src/lib/matchActions";
+import { setWinner } from "@/src/lib/matchSets";
+import type { MatchState } from "@/src/types/match";
+
+export const MAX_COMMIT_ATTEMPTS = 3;
+
+export type LoadedMatchState = { state: MatchState; version: number } | { error: string };
+
+export type CommitResult = { version: number } | { conflict: true } | { error: string };
+
+export async function loadMatchState(admin: SupabaseClient, matchId: string): Promise<LoadedMatchState> {
+  const { data, error } = await admin
+    .from("match_state")
+    .select("state, version")
+    .eq("match_id", matchId)
+    .single();
+
+  if (error || !data) {
+    return { error: error?.message ?? "Match state missing" };
+  }
+
+  return { state: data.state as MatchState, version: data.version as number };
+}
+
+/**
+ * Writes `state` and logs `events` in one transaction via `commit_match_state`. The write only
+ * lands if the row is still at `expectedVersion`; otherwise nothing is stored and the caller
+ * gets `{ conflict: true }`.
+ */
+export async function commitMatchState(
+  admin: SupabaseClient,
+  matchId: string,
+  expectedVersion: number,
+  state: MatchState,
+  events: MatchEventDraft[]
+): Promise<CommitResult> {
+  const { data, error } = await admin.rpc("commit_match_state", {
+    p_match_id: matchId,
+    p_expected_version: expectedVersion,
+    p_state: state,
+    p_events: events,
+  });
+
+  if (error) {
+    return { error: error.message };
+  }
+
+  if (typeof data !== "number") {
+    return { conflict: true };
+  }
+
+  return { version: data };
+}
+
+/**
+ * Mirrors the set's game results onto `matches` so lobby lists and history can read them
+ * without touching the private state.
+ */
+export async function recordSetResults(admin: SupabaseClient, matchId: string, state: MatchState) {
+  const set = state.set;
+  if (!set) return;
+
+  const decided = setWinner(set);
+  const { error } = await admin
+    .from("matches")
+    .update({
+      game_results: set.results,
+      set_winner_id: decided ? state.players[decided].id : null,
+    })
+    .eq("id", matchId);
+
+  if (error) {
+    console.warn(`[matchStore] Unable to record set results for ${matchId}`, error);
+  }
+}
@@ -0,0 +1,221 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { MatchActionPayload, MatchActionResult, MatchActor } from "@/src/lib/matchActions";
+import type { MatchState, MatchSummary } from "@/src/types/match";
+
+export type UndoActionType = "request-undo" | "respond-undo";
+
+// Bookkeeping events that can't themselves be rolled back.
+const UNDO_EVENT_TYPES = ["undo_requested", "undo_declined", "undo_applied"];
+
+export function isUndoAction(type: string): type is UndoActionType {
+  return type === "request-undo" || type === "respond-undo";
+}
+
+type UndoTarget = { eventId: number; eventType: string; targetVersion: number };
+
+async function resolveUndoTarget(
+  admin: SupabaseClient,
+  matchId: string,
+  eventId: unknown
+): Promise<UndoTarget | { error: string; status: number }> {
+  if (typeof eventId !== "number") {
+    return { error: "Choose an action to undo", status: 400 };
+  }
+
+  const { data: event, error } = await admin
+    .from("match_events")
+    .select("id, type, payload, state_version")
+    .eq("match_id", matchId)
+    .eq("id", eventId)
+    .maybeSingle();
+
+  if (error) {
+    return { error: error.message, status: 500 };
+  }
+
+  const payload = (event?.payload ?? {}) as Record<string, unknown>;
+  const undoable =
+    event && event.state_version !== null && payload.actor && !UNDO_EVENT_TYPES.includes(event.type);
+  if (!event || !undoable) {
+    return { error: "That entry can't be undone", status: 400 };
+  }
+
+  // A rollback removed everything from its target up to itself; resurrecting any of that would
+  // fork history. Actions before the target, or after the rollback, are still on the board.
+  const { data: laterRollbacks, error: rollbackError } = await admin
+    .from("match_events")
+    .select("id, payload")
+    .eq("match_id", matchId)
+    .eq("type", "undo_applied")
+    .gt("id", event.id);
+
+  if (rollbackError) {
+    return { error: rollbackError.message, status: 500 };
+  }
+
+  const rolledBack = (laterRollbacks ?? []).some(
+    (rollback) => Number((rollback.payload as Record<string, unknown> | null)?.eventId) <= event.id
+  );
+  if (rolledBack) {
+    return { error: "That action was already rolled back", status: 400 };
+  }
+
+  // Earlier games of a set are finished; only the current board can be rolled back.
+  const { data: gameStart } = await admin
+    .from("match_events")
+    .select("id")
+    .eq("match_id", matchId)
+    .eq("type", "game_started")
+    .order("id", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (gameStart && gameStart.id > event.id) {
+    return { error: "That action belongs to an earlier game", status: 400 };
+  }
+
+  return { eventId: event.id, eventType: event.type, targetVersion: event.state_version - 1 };
+}
+
+async function restoreSnapshot(
+  admin: SupabaseClient,
+  matchId: string,
+  state: MatchState,
+  version: number
+): Promise<{ error: string; status: number } | null> {
+  const { data: snapshot, error } = await admin
+    .from("match_state_snapshots")
+    .select("state")
+    .eq("match_id", matchId)
+    .eq("version", version)
+    .maybeSingle();
+
+  if (error) {
+    return { error: error.message, status: 500 };
+  }
+
+  if (!snapshot) {
+    return { error: "No snapshot is stored for that action", status: 400 };
+  }
+
+  // The shuffle counter only moves forward: reusing an index on the restored order would deal the
+  // exact shuffle both players already saw.
+  const restored = snapshot.state as MatchState;
+  const count = Math.max(state.shuffle?.count ?? 0, restored.shuffle?.count ?? 0);
+  Object.assign(state, restored, { pendingUndo: null });
+  if (state.shuffle) {
+    state.shuffle = { ...state.shuffle, count };
+  }
+  return null;
+}
+
+/**
+ * Handles undo requests and answers. With an opponent seated the request is parked on
+ * `state.pendingUndo` until they accept; a solo table rolls back straight away. A rollback
+ * replaces `state` in place with the snapshot taken before the chosen event.
+ */
+export async function applyUndoAction(
+  admin: SupabaseClient,
+  match: Pick<MatchSummary, "id" | "player2_id">,
+  state: MatchState,
+  actor: MatchActor,
+  type: UndoActionType,
+  payload: MatchActionPayload
+): Promise<MatchActionResult> {
+  const pending = state.pendingUndo;
+
+  if (type === "request-undo") {
+    // Once the shuffle seed is public, rolling back would let players predict every draw.
+    if (state.winner) {
+      return { error: "The match is over and can no longer be rolled back", status: 409 };
+    }
+    if (pending) {
+      return { error: "An undo request is already pending", status: 409 };
+    }
+
+    const target = await resolveUndoTarget(admin, match.id, payload.eventId);
+    if ("error" in target) {
+      return target;
+    }
+
+    const { eventId, eventType, targetVersion } = target;
+    if (!match.player2_id) {
+      const failure = await restoreSnapshot(admin, match.id, state, targetVersion);
+      if (failure) {
+        return failure;
+      }
+      return {
+        events: [
+          {
+            player_id: actor.userId,
+            type: "undo_applied",
+            payload: {
+              actor: actor.slot,
+              requestedBy: actor.slot,
+              eventId,
+              eventType,
+              restoredVersion: targetVersion,
+            },
+          },
+        ],
+      };
+    }
+
+    state.pendingUndo = { requestedBy: actor.slot, eventId, eventType, targetVersion };
+    return {
+      events: [
+        {
+          player_id: actor.userId,
+          type: "undo_requested",
+          payload: { actor: actor.slot, eventId, eventType, targetVersion },
+        },
+      ],
+    };
+  }
+
+  if (!pending) {
+    return { error: "There is no undo request to answer", status: 400 };
+  }
+
+  if (payload.accept !== true) {
+    state.pendingUndo = null;
+    return {
+      events: [
+        {
+          player_id: actor.userId,
+          type: "undo_declined",
+          payload: {
+            actor: actor.slot,
+            eventId: pending.eventId,
+            withdrawn: actor.slot === pending.requestedBy,
+          },
+        },
+      ],
+    };
+  }
+
+  if (actor.slot === pending.requestedBy) {
+    return { error: "Your opponent has to confirm the undo", status: 403 };
+  }
+
+  const failure = await restoreSnapshot(admin, match.id, state, pending.targetVersion);
+  if (failure) {
+    return failure;
+  }
+
+  return {
+    events: [
+      {
+        player_id: actor.userId,
+        type: "undo_applied",
+        payload: {
+          actor: actor.slot,
+          requestedBy: pending.requestedBy,
+          eventId: pending.eventId,
+          eventType: pending.eventType,
+          restoredVersion: pending.targetVersion,
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,125 @@
+import type {
+  MatchCard,
+  MatchState,
+  OpeningState,
+  SetState,
+  MatchSummary,
+  PlayerSlot,
+  PlayerState,
+  PlayerZones,
+  ZoneKey,
+} from "@/src/types/match";
+
+export type MatchViewer = PlayerSlot | "spectator";
+
+// Deck order is never shown to anyone, including the deck's owner.
+const ORDERED_ZONES: ZoneKey[] = ["deck", "runeDeck"];
+
+export function resolveViewer(
+  match: Pick<MatchSummary, "player1_id" | "player2_id" | "spectators_allowed" | "kicked_spectator_ids">,
+  userId: string
+): MatchViewer | null {
+  if (match.player1_id === userId) return "p1";
+  if (match.player2_id === userId) return "p2";
+  if (match.kicked_spectator_ids?.includes(userId)) return null;
+  return match.spectators_allowed ? "spectator" : null;
+}
+
+function placeholderCard(owner: PlayerSlot, uid: string): MatchCard {
+  return {
+    uid,
+    cardId: null,
+    name: "Hidden card",
+    publicCode: null,
+    img: null,
+    owner,
+    exhausted: false,
+    faceDown: true,
+    counters: {},
+    attachments: [],
+    hidden: true,
+  };
+}
+
+function projectCard(card: MatchCard, viewer: MatchViewer): MatchCard {
+  const attachments = card.attachments.map((attachment) => projectCard(attachment, viewer));
+  if (card.faceDown && card.owner !== viewer) {
+    return {
+      ...placeholderCard(card.owner, card.uid),
+      exhausted: card.exhausted,
+      counters: { ...card.counters },
+      attachments,
+    };
+  }
+  return { ...card, counters: { ...card.counters }, attachments };
+}
+
+function projectPlayer(player: PlayerState, slot: PlayerSlot, viewer: MatchViewer): PlayerState {
+  const zones = {} as PlayerZones;
+  // A player mid-peek sees the peeked cards in place; nobody else learns which ones they are.
+  const peek = viewer === slot ? (player.peek ?? null) : null;
+  (Object.keys(player.zones) as ZoneKey[]).forEach((zone) => {
+    const cards = player.zones[zone];
+    const concealed = ORDERED_ZONES.includes(zone) || (zone === "hand" && viewer !== slot);
+    zones[zone] = cards.map((card, index) => {
+      const peeked = peek?.zone === zone && peek.uids.includes(card.uid);
+      return concealed && !peeked
+        ? placeholderCard(slot, `hidden-${slot}-${zone}-${index}`)
+        : projectCard(card, viewer);
+    });
+  });
+
+  const battlefields = { ...player.battlefields };
+  (Object.keys(battlefields) as (keyof PlayerState["battlefields"])[]).forEach((key) => {
+    const { card } = battlefields[key];
+    battlefields[key] = { ...battlefields[key], card: card ? projectCard(card, viewer) : null };
+  });
+
+  return { ...player, zones, battlefields, peek };
+}
+
+function projectOpening(opening: OpeningState, viewer: MatchViewer): OpeningState {
+  const project = (slot: PlayerSlot) => ({
+    lockedIn: opening[slot].lockedIn,
+    setAside: viewer === slot ? opening[slot].setAside : [],
+  });
+  return { p1: project("p1"), p2: project("p2") };
+}
+
+// Registered lists and sideboard swaps are private to the player who owns them.
+function projectSet(set: SetState, viewer: MatchViewer): SetState {
+  const sideboard = set.sideboard;
+  const own = (slot: PlayerSlot) => viewer === slot;
+  return {
+    ...set,
+    decklists: { p1: own("p1") ? set.decklists.p1 : [], p2: own("p2") ? set.decklists.p2 : [] },
+    sideboard: sideboard && {
+      ...sideboard,
+      choices: {
+        p1: { lockedIn: sideboard.choices.p1.lockedIn, swaps: own("p1") ? sideboard.choices.p1.swaps : [] },
+        p2: { lockedIn: sideboard.choices.p2.lockedIn, swaps: own("p2") ? sideboard.choices.p2.swaps : [] },
+      },
+    },
+  };
+}
+
+/**
+ * Builds the copy of the match a single viewer is allowed to see. Hands are only visible to
+ * their owner, deck order is hidden from everyone, and face-down cards are only legible to the
+ * player who owns them. Spectators see neither hand nor any face-down card. The shuffle seed is
+ * withheld until the match has a winner, and opening mulligan picks, decklists and sideboard
+ * swaps only show to their owner.
+ */
+export function projectMatchState(state: MatchState, viewer: MatchViewer): MatchState {
+  const seed = state.winner ? (state.shuffle?.seed ?? null) : null;
+  return {
+    ...state,
+    shuffle: { count: state.shuffle?.count ?? 0, seed },
+    opening: state.opening ? projectOpening(state.opening, viewer) : null,
+    set: state.set ? projectSet(state.set, viewer) : null,
+    players: {
+      p1: projectPlayer(state.players.p1, "p1", viewer),
+      p2: projectPlayer(state.players.p2, "p2", viewer),
+    },
+  };
+}
@@ -1,5 +1,12 @@
+import type { RiftCard, RiftCardListResponse } from "@/src/types/card";
+import type { TokenDefinition } from "@/src/types/match";
+
 const API_BASE_URL = "https://api.riftcodex.com";
 
+const SEARCH_PAGE_SIZE = 50;
+const TOKEN_PAGE_SIZE = 100;
+const TOKEN_CATALOG_REVALIDATE_SECONDS = 43200;
+
 export type QueryParams = Record<string, string | number | undefined | null>;
 
 export function buildRiftcodexUrl(path: string, params?: QueryParams) {
@@ -32,4 +39,47 @@ export async function fetchRiftcodexJson<T>(path: string, params?: QueryParams,
   return (await response.json()) as T;
 }
 
+/** First page of catalog search results for a name or card code. */
+export async function searchRiftcodexCards(query: string): Promise<RiftCard[]> {
+  const payload = await fetchRiftcodexJson<RiftCardListResponse>("/cards/search", {
+    query,
+    page: 1,
+    size: SEARCH_PAGE_SIZE,
+  });
+  return payload.items;
+}
+
+function isTokenCard(card: RiftCard) {
+  const supertype = card.classification?.supertype ?? "";
+  const type = card.classification?.type ?? "";
+  return supertype.toLowerCase() === "token" || type.toLowerCase().includes("token");
+}
+
+/**
+ * Token entries from the card catalog, trimmed to what a match needs to spawn one. Matches only
+ * ever create tokens from this list, so it is also what the server checks a token against.
+ */
+export async function fetchTokenCatalog(): Promise<TokenDefinition[]> {
+  const payload = await fetchRiftcodexJson<RiftCardListResponse>(
+    "/cards/search",
+    { query: "token", page: 1, size: TOKEN_PAGE_SIZE },
+    { next: { revalidate: TOKEN_CATALOG_REVALIDATE_SECONDS } }
+  );
+
+  const seen = new Set<string>();
+  const tokens: TokenDefinition[] = [];
+  payload.items.filter(isTokenCard).forEach((card) => {
+    // Alternate printings share a name; one entry per token is enough for the picker.
+    if (seen.has(card.name)) return;
+    seen.add(card.name);
+    tokens.push({
+      cardId: card.id,
+      name: card.name,
+      publicCode: card.public_code ?? null,
+      img: card.media?.image_url ?? null,
+    });
+  });
+  return tokens.sort((a, b) => a.name.localeCompare(b.name));
+}
+
 export { API_BASE_URL };
@@ -26,3 +26,12 @@ export interface DeckSummary {
   updatedAt: string;
   cards: DeckCardEntry[];
 }
+
+export interface DeckRevision {
+  id: string;
+  deckId: string;
+  revision: number;
+  note: string | null;
+  createdAt: string;
+  cards: DeckCardEntry[];
+}
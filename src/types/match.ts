@@ -1,23 +1,149 @@
+import type { DeckCardEntry } from "./deck";
+
 export type PlayerSlot = "p1" | "p2";
-export type ZoneKey = "deck" | "hand" | "battlefield" | "discard";
+export type BattlefieldZoneKey = "battlefield1" | "battlefield2" | "battlefield3";
+export type ZoneKey =
+  | "deck"
+  | "hand"
+  | "base"
+  | "discard"
+  | "banish"
+  | "legend"
+  | "champion"
+  | "runeDeck"
+  | "runes"
+  | BattlefieldZoneKey;
 
 export interface MatchCard {
   uid: string;
+  cardId: string | null;
   name: string;
+  publicCode: string | null;
   img: string | null;
+  owner: PlayerSlot;
+  exhausted: boolean;
+  faceDown: boolean;
+  counters: Record<string, number>;
+  attachments: MatchCard[];
+  // Generated during play rather than drawn from a deck list; ceases to exist once it leaves play.
+  token?: boolean;
+  // Set on placeholders produced by the per-viewer projection.
+  hidden?: boolean;
 }
 
-export interface PlayerZones {
-  deck: MatchCard[];
-  hand: MatchCard[];
-  battlefield: MatchCard[];
-  discard: MatchCard[];
+/** What a player picks from the catalog's token entries to spawn a token. */
+export interface TokenDefinition {
+  cardId: string | null;
+  name: string;
+  publicCode: string | null;
+  img: string | null;
+}
+
+export type PlayerZones = Record<ZoneKey, MatchCard[]>;
+
+export interface BattlefieldState {
+  card: MatchCard | null;
+  controller: PlayerSlot | null;
 }
 
 export interface PlayerState {
   id: string | null;
-  life: number;
+  points: number;
   zones: PlayerZones;
+  battlefields: Record<BattlefieldZoneKey, BattlefieldState>;
+  peek: PeekState | null;
+}
+
+/** Cards a player is privately looking at on top of one of their decks. */
+export interface PeekState {
+  zone: "deck" | "runeDeck";
+  uids: string[];
+}
+
+export type MatchPhase = "awaken" | "beginning" | "channel" | "draw" | "action" | "end";
+
+/** What the table does on its own when the active player enters a phase. */
+export interface AutoStepSettings {
+  readyOnAwaken: boolean;
+  channelRunes: number;
+  drawCards: number;
+}
+
+/**
+ * Per-match shuffle source. Every shuffle takes the next index; the seed stays on the server
+ * until the match has a winner.
+ */
+export interface ShuffleState {
+  seed: string | null;
+  count: number;
+}
+
+/** One player's opening-hand decision. `setAside` stays private until both players lock in. */
+export interface OpeningChoice {
+  lockedIn: boolean;
+  setAside: string[];
+}
+
+export type OpeningState = Record<PlayerSlot, OpeningChoice>;
+
+/** A rollback one player has asked for and the other has not answered yet. */
+export interface PendingUndo {
+  requestedBy: PlayerSlot;
+  eventId: number;
+  eventType: string;
+  targetVersion: number;
+}
+
+/** Something a player has put on the chain, waiting for the opponent to pass or respond. */
+export interface ChainItem {
+  id: number;
+  controller: PlayerSlot;
+  label: string;
+  cardUid: string | null;
+  cardName: string | null;
+}
+
+/** Open chain: items resolve last-in, first-out, and `priority` is who must pass or respond. */
+export interface ChainState {
+  items: ChainItem[];
+  priority: PlayerSlot;
+  nextId: number;
+}
+
+export interface GameResult {
+  game: number;
+  winner: PlayerSlot;
+  points: Record<PlayerSlot, number>;
+}
+
+/** One main-deck card traded for one side-deck card, by catalog id. */
+export interface SideboardSwap {
+  out: string;
+  in: string;
+}
+
+export interface SideboardChoice {
+  lockedIn: boolean;
+  swaps: SideboardSwap[];
+}
+
+/** Between games: both players side, and the loser of the last game picks who goes first. */
+export interface SideboardState {
+  chooser: PlayerSlot;
+  firstPlayer: PlayerSlot | null;
+  choices: Record<PlayerSlot, SideboardChoice>;
+}
+
+/**
+ * A best-of set. `decklists` are the lists each player registered for the set; sideboarding is
+ * always checked against them. Each player only ever sees their own list and swaps.
+ */
+export interface SetState {
+  bestOf: 1 | 3;
+  game: number;
+  results: GameResult[];
+  decklists: Record<PlayerSlot, DeckCardEntry[]>;
+  sideboard: SideboardState | null;
 }
 
 export interface MatchState {
@@ -26,7 +152,17 @@ export interface MatchState {
     p2: PlayerState;
   };
   turn: PlayerSlot;
-  phase: string;
+  turnNumber: number;
+  firstPlayer: PlayerSlot;
+  phase: MatchPhase;
+  autoSteps: AutoStepSettings;
+  opening: OpeningState | null;
+  victoryTarget: number;
+  winner: PlayerSlot | null;
+  pendingUndo: PendingUndo | null;
+  chain: ChainState | null;
+  set: SetState | null;
+  shuffle: ShuffleState;
   createdAt: string;
 }
 
@@ -36,6 +172,20 @@ export interface MatchEventRecord {
   player_id: string | null;
   type: string;
   payload: Record<string, unknown>;
+  state_version: number | null;
+  created_at: string;
+}
+
+export type MatchMessageChannel = "players" | "spectators";
+
+export interface MatchMessageRecord {
+  id: number;
+  match_id: string;
+  sender_id: string | null;
+  sender_name: string | null;
+  channel: MatchMessageChannel;
+  body: string;
+  canned: boolean;
   created_at: string;
 }
 
@@ -45,5 +195,40 @@ export interface MatchSummary {
   player1_id: string;
   player2_id: string | null;
   spectators_allowed: boolean;
+  kicked_spectator_ids?: string[];
+  is_public?: boolean;
+  best_of?: number;
+  game_results?: GameResult[];
+  set_winner_id?: string | null;
   created_at: string;
 }
+
+/** A waiting public match as listed in the lobby's open tables. */
+export interface OpenTable {
+  code: string;
+  hostName: string | null;
+  bestOf: number;
+  spectatorsAllowed: boolean;
+  createdAt: string;
+}
+
+/** An in-progress match open to spectators, as listed under live games. */
+export interface LiveGame {
+  code: string;
+  playerNames: [string | null, string | null];
+  bestOf: number;
+  gamesPlayed: number;
+  createdAt: string;
+}
+
+/** What each client in a match room shares over Realtime presence. */
+export interface MatchPresence {
+  name: string | null;
+  role: PlayerSlot | "spectator";
+}
+
+export type QueueStatus =
+  | { status: "idle" }
+  | { status: "waiting"; expiresAt: string }
+  | { status: "matched"; code: string }
+  | { status: "expired" };
@@ -0,0 +1,4 @@
+-- Remember which saved deck each player brought to a match
+alter table public.matches
+  add column if not exists player1_deck_id uuid references public.decks (id) on delete set null,
+  add column if not exists player2_deck_id uuid references public.decks (id) on delete set null;
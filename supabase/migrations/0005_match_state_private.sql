@@ -0,0 +1,17 @@
+-- Raw match state holds hands, deck order and face-down cards, so only the service role may read it.
+-- Clients fetch a per-viewer projection from /api/match/[code]/state instead.
+drop policy if exists "Players and allowed spectators can read state" on public.match_state;
+
+do $$
+begin
+  if exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'match_state'
+  ) then
+    alter publication supabase_realtime drop table public.match_state;
+  end if;
+end
+$$;
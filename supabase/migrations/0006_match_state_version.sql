@@ -0,0 +1,48 @@
+-- Optimistic concurrency for match state: every committed action bumps the version, and events
+-- record the version they produced so clients can tell whether their copy is current.
+alter table public.match_state
+  add column if not exists version integer not null default 0;
+
+alter table public.match_events
+  add column if not exists state_version integer;
+
+-- Applies a new state and its log entries atomically. Returns the new version, or null when the
+-- row has moved past p_expected_version (nothing is written in that case).
+create or replace function public.commit_match_state(
+  p_match_id uuid,
+  p_expected_version integer,
+  p_state jsonb,
+  p_events jsonb default '[]'::jsonb
+)
+returns integer
+language plpgsql
+as $$
+declare
+  next_version integer;
+begin
+  update public.match_state
+    set state = p_state,
+        version = version + 1
+    where match_id = p_match_id
+      and version = p_expected_version
+    returning version into next_version;
+
+  if next_version is null then
+    return null;
+  end if;
+
+  insert into public.match_events (match_id, player_id, type, payload, state_version)
+  select
+    p_match_id,
+    (event ->> 'player_id')::uuid,
+    event ->> 'type',
+    coalesce(event -> 'payload', '{}'::jsonb),
+    next_version
+  from jsonb_array_elements(p_events) with ordinality as entries (event, position)
+  order by position;
+
+  return next_version;
+end;
+$$;
+
+revoke execute on function public.commit_match_state(uuid, integer, jsonb, jsonb) from public, anon, authenticated;
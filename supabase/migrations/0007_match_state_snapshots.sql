@@ -0,0 +1,60 @@
+-- Before-snapshots for undo: the state each version replaced. They hold hidden information, so
+-- RLS is on with no policies and only the service role can read them.
+create table if not exists public.match_state_snapshots (
+  match_id uuid not null references public.matches (id) on delete cascade,
+  version integer not null,
+  state jsonb not null,
+  created_at timestamptz not null default now(),
+  primary key (match_id, version)
+);
+
+alter table public.match_state_snapshots enable row level security;
+
+create or replace function public.commit_match_state(
+  p_match_id uuid,
+  p_expected_version integer,
+  p_state jsonb,
+  p_events jsonb default '[]'::jsonb
+)
+returns integer
+language plpgsql
+as $$
+declare
+  previous_state jsonb;
+  next_version integer;
+begin
+  select state into previous_state
+    from public.match_state
+    where match_id = p_match_id
+      and version = p_expected_version
+    for update;
+
+  if not found then
+    return null;
+  end if;
+
+  insert into public.match_state_snapshots (match_id, version, state)
+  values (p_match_id, p_expected_version, previous_state)
+  on conflict (match_id, version) do nothing;
+
+  update public.match_state
+    set state = p_state,
+        version = version + 1
+    where match_id = p_match_id
+    returning version into next_version;
+
+  insert into public.match_events (match_id, player_id, type, payload, state_version)
+  select
+    p_match_id,
+    (event ->> 'player_id')::uuid,
+    event ->> 'type',
+    coalesce(event -> 'payload', '{}'::jsonb),
+    next_version
+  from jsonb_array_elements(p_events) with ordinality as entries (event, position)
+  order by position;
+
+  return next_version;
+end;
+$$;
+
+revoke execute on function public.commit_match_state(uuid, integer, jsonb, jsonb) from public, anon, authenticated;
@@ -0,0 +1,66 @@
+-- Private companion rows for match_events: the action input and any shuffle outcome, so the
+-- server can rebuild a match step by step for replays. Service role only.
+create table if not exists public.match_event_details (
+  event_id bigint primary key references public.match_events (id) on delete cascade,
+  detail jsonb not null
+);
+
+alter table public.match_event_details enable row level security;
+
+create or replace function public.commit_match_state(
+  p_match_id uuid,
+  p_expected_version integer,
+  p_state jsonb,
+  p_events jsonb default '[]'::jsonb
+)
+returns integer
+language plpgsql
+as $$
+declare
+  previous_state jsonb;
+  next_version integer;
+  entry jsonb;
+  inserted_id bigint;
+begin
+  select state into previous_state
+    from public.match_state
+    where match_id = p_match_id
+      and version = p_expected_version
+    for update;
+
+  if not found then
+    return null;
+  end if;
+
+  insert into public.match_state_snapshots (match_id, version, state)
+  values (p_match_id, p_expected_version, previous_state)
+  on conflict (match_id, version) do nothing;
+
+  update public.match_state
+    set state = p_state,
+        version = version + 1
+    where match_id = p_match_id
+    returning version into next_version;
+
+  for entry in select value from jsonb_array_elements(p_events) loop
+    insert into public.match_events (match_id, player_id, type, payload, state_version)
+    values (
+      p_match_id,
+      (entry ->> 'player_id')::uuid,
+      entry ->> 'type',
+      coalesce(entry -> 'payload', '{}'::jsonb),
+      next_version
+    )
+    returning id into inserted_id;
+
+    if entry ? 'detail' then
+      insert into public.match_event_details (event_id, detail)
+      values (inserted_id, entry -> 'detail');
+    end if;
+  end loop;
+
+  return next_version;
+end;
+$$;
+
+revoke execute on function public.commit_match_state(uuid, integer, jsonb, jsonb) from public, anon, authenticated;
@@ -0,0 +1,60 @@
+-- Table talk. Players share one channel that anyone allowed to watch may read; spectators get
+-- their own channel that players never see, so the gallery can't coach. Rows are written by the
+-- API route with the service role.
+create table if not exists public.match_messages (
+  id bigserial primary key,
+  match_id uuid not null references public.matches (id) on delete cascade,
+  sender_id uuid references public.profiles (id) on delete set null,
+  -- Profiles are private to their owner, so the display name is copied in when the row is written.
+  sender_name text,
+  channel text not null check (channel in ('players', 'spectators')),
+  body text not null check (char_length(body) between 1 and 280),
+  canned boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists match_messages_match_id_idx on public.match_messages (match_id, id);
+
+alter table public.match_messages enable row level security;
+
+create policy "Players and allowed spectators can read the players channel" on public.match_messages
+  for select using (
+    channel = 'players'
+    and exists (
+      select 1
+      from public.matches m
+      where m.id = match_messages.match_id
+        and (
+          auth.uid() = m.player1_id
+          or auth.uid() = m.player2_id
+          or m.spectators_allowed = true
+        )
+    )
+  );
+
+create policy "Spectators can read the spectators channel" on public.match_messages
+  for select using (
+    channel = 'spectators'
+    and exists (
+      select 1
+      from public.matches m
+      where m.id = match_messages.match_id
+        and m.spectators_allowed = true
+        and auth.uid() <> m.player1_id
+        and auth.uid() is distinct from m.player2_id
+    )
+  );
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'match_messages'
+  ) then
+    alter publication supabase_realtime add table public.match_messages;
+  end if;
+end
+$$;
@@ -0,0 +1,6 @@
+-- Matches are played as a set of games (best of 1 or 3). Results are mirrored here from the
+-- private state when each game ends so lists and history don't need the full board.
+alter table public.matches
+  add column if not exists best_of smallint not null default 1 check (best_of in (1, 3)),
+  add column if not exists game_results jsonb not null default '[]'::jsonb,
+  add column if not exists set_winner_id uuid references public.profiles (id) on delete set null;
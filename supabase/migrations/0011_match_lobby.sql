@@ -0,0 +1,73 @@
+-- Open tables: hosts can list a waiting match in the lobby for anyone to join.
+alter table public.matches
+  add column if not exists is_public boolean not null default false;
+
+create index if not exists matches_open_tables_idx
+  on public.matches (created_at desc)
+  where is_public = true and player2_id is null;
+
+-- Quick-match queue. One row per waiting player; the server pairs rows with the same format,
+-- creates the match and stores its code on the host's row so their next poll can pick it up.
+create table if not exists public.match_queue (
+  user_id uuid primary key references public.profiles (id) on delete cascade,
+  deck_id uuid not null references public.decks (id) on delete cascade,
+  best_of smallint not null default 1 check (best_of in (1, 3)),
+  claimed_by uuid references public.profiles (id) on delete set null,
+  match_code text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.match_queue enable row level security;
+
+create policy "Players can read their own queue entry" on public.match_queue
+  for select using (auth.uid() = user_id);
+
+-- Claims the caller's row and the longest-waiting compatible partner in one transaction.
+-- Rows locked by a concurrent pairing are skipped, so two players can never both claim each
+-- other. Returns the partner's row, or null when nobody is available.
+create or replace function public.claim_queue_partner(
+  p_user_id uuid,
+  p_timeout_seconds integer
+)
+returns public.match_queue
+language plpgsql
+as $$
+declare
+  own public.match_queue;
+  partner public.match_queue;
+begin
+  select * into own
+    from public.match_queue
+    where user_id = p_user_id
+      and claimed_by is null
+      and match_code is null
+    for update skip locked;
+
+  if not found then
+    return null;
+  end if;
+
+  select * into partner
+    from public.match_queue
+    where user_id <> p_user_id
+      and best_of = own.best_of
+      and claimed_by is null
+      and match_code is null
+      and created_at > now() - make_interval(secs => p_timeout_seconds)
+    order by created_at
+    limit 1
+    for update skip locked;
+
+  if not found then
+    return null;
+  end if;
+
+  update public.match_queue
+    set claimed_by = p_user_id
+    where user_id in (p_user_id, partner.user_id);
+
+  return partner;
+end;
+$$;
+
+revoke execute on function public.claim_queue_partner(uuid, integer) from public, anon, authenticated;
@@ -0,0 +1,19 @@
+-- Hosts can remove individual spectators. Kicked users lose read access to the match row; the
+-- event and chat policies check spectator access through a subquery on matches, which this
+-- policy also filters, so they lose those too.
+alter table public.matches
+  add column if not exists kicked_spectator_ids uuid[] not null default '{}';
+
+drop policy if exists "Players and spectators can read matches" on public.matches;
+
+create policy "Players and spectators can read matches" on public.matches
+  for select
+  using (
+    auth.uid() = player1_id
+    or auth.uid() = player2_id
+    or (spectators_allowed = true and not (auth.uid() = any (kicked_spectator_ids)))
+  );
+
+create index if not exists matches_live_games_idx
+  on public.matches (created_at desc)
+  where spectators_allowed = true and player2_id is not null and set_winner_id is null;
@@ -0,0 +1,65 @@
+-- Deck revisions: a snapshot of the card list on every save, so a list's history survives the
+-- delete-and-reinsert of deck_cards. Cards are stored in the API's camelCase card shape.
+create table if not exists public.deck_revisions (
+  id uuid primary key default gen_random_uuid(),
+  deck_id uuid not null references public.decks (id) on delete cascade,
+  revision integer not null check (revision > 0),
+  note text,
+  cards jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  unique (deck_id, revision)
+);
+
+alter table public.deck_revisions enable row level security;
+
+-- Revisions are never edited; they only go away with their deck.
+create policy "Owners read deck revisions" on public.deck_revisions
+  for select
+  using (
+    exists (
+      select 1
+      from public.decks d
+      where d.id = deck_revisions.deck_id
+        and auth.uid() = d.owner_id
+    )
+  );
+
+create policy "Owners add deck revisions" on public.deck_revisions
+  for insert
+  with check (
+    exists (
+      select 1
+      from public.decks d
+      where d.id = deck_revisions.deck_id
+        and auth.uid() = d.owner_id
+    )
+  );
+
+-- Existing decks start their history from their current list.
+insert into public.deck_revisions (deck_id, revision, note, cards, created_at)
+select
+  d.id,
+  1,
+  'Initial revision',
+  coalesce(
+    (
+      select jsonb_agg(
+        jsonb_build_object(
+          'cardId', c.card_id,
+          'cardName', c.card_name,
+          'cardPublicCode', c.card_public_code,
+          'quantity', c.quantity,
+          'section', c.section,
+          'cardDomains', to_jsonb(c.card_domains),
+          'cardSupertype', c.card_supertype,
+          'cardType', c.card_type
+        )
+      )
+      from public.deck_cards c
+      where c.deck_id = d.id
+    ),
+    '[]'::jsonb
+  ),
+  d.updated_at
+from public.decks d
+where not exists (select 1 from public.deck_revisions r where r.deck_id = d.id);
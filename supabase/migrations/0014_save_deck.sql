@@ -0,0 +1,127 @@
+-- Saves a deck, its card list and a revision snapshot in one transaction, so a failed save can no
+-- longer leave a deck without cards or an empty deck behind.
+--
+-- p_deck_id null creates a deck owned by the caller; otherwise the caller must own p_deck_id.
+-- p_deck holds `decks` columns (name, description, format, cover_card_id, is_public); on replace,
+-- columns missing from it keep their value. p_cards uses the API's camelCase card shape and
+-- replaces the whole list. Returns the deck with its cards in the shape `DECK_SELECT` reads.
+create or replace function public.save_deck(
+  p_deck_id uuid,
+  p_deck jsonb,
+  p_cards jsonb default '[]'::jsonb,
+  p_note text default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  caller uuid := auth.uid();
+  saved_id uuid;
+  next_revision integer;
+begin
+  if caller is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  if p_deck_id is null then
+    insert into public.decks (owner_id, name, description, format, cover_card_id, is_public)
+    values (
+      caller,
+      p_deck ->> 'name',
+      p_deck ->> 'description',
+      p_deck ->> 'format',
+      (p_deck ->> 'cover_card_id')::uuid,
+      coalesce((p_deck ->> 'is_public')::boolean, false)
+    )
+    returning id into saved_id;
+  else
+    -- The row lock taken here also serializes concurrent saves of the same deck.
+    update public.decks
+      set name = case when p_deck ? 'name' then p_deck ->> 'name' else name end,
+          description = case when p_deck ? 'description' then p_deck ->> 'description' else description end,
+          format = case when p_deck ? 'format' then p_deck ->> 'format' else format end,
+          cover_card_id = case
+            when p_deck ? 'cover_card_id' then (p_deck ->> 'cover_card_id')::uuid
+            else cover_card_id
+          end,
+          is_public = case
+            when p_deck ? 'is_public' then coalesce((p_deck ->> 'is_public')::boolean, false)
+            else is_public
+          end
+      where id = p_deck_id
+        and owner_id = caller
+      returning id into saved_id;
+
+    if saved_id is null then
+      raise exception 'Deck not found' using errcode = 'P0002';
+    end if;
+
+    delete from public.deck_cards where deck_id = saved_id;
+  end if;
+
+  insert into public.deck_cards (
+    deck_id,
+    card_id,
+    card_name,
+    card_public_code,
+    quantity,
+    section,
+    card_domains,
+    card_supertype,
+    card_type
+  )
+  select
+    saved_id,
+    (card ->> 'cardId')::uuid,
+    card ->> 'cardName',
+    card ->> 'cardPublicCode',
+    (card ->> 'quantity')::integer,
+    coalesce(card ->> 'section', 'main'),
+    array(select jsonb_array_elements_text(coalesce(card -> 'cardDomains', '[]'::jsonb))),
+    card ->> 'cardSupertype',
+    card ->> 'cardType'
+  from jsonb_array_elements(coalesce(p_cards, '[]'::jsonb)) as entries (card);
+
+  select coalesce(max(revision), 0) + 1 into next_revision
+    from public.deck_revisions
+    where deck_id = saved_id;
+
+  insert into public.deck_revisions (deck_id, revision, note, cards)
+  values (
+    saved_id,
+    next_revision,
+    coalesce(p_note, case when p_deck_id is null then 'Created' end),
+    coalesce(p_cards, '[]'::jsonb)
+  );
+
+  return (
+    select to_jsonb(d) || jsonb_build_object(
+      'deck_cards',
+      coalesce(
+        (
+          select jsonb_agg(
+            jsonb_build_object(
+              'card_id', c.card_id,
+              'card_name', c.card_name,
+              'card_public_code', c.card_public_code,
+              'quantity', c.quantity,
+              'section', c.section,
+              'card_domains', to_jsonb(c.card_domains),
+              'card_supertype', c.card_supertype,
+              'card_type', c.card_type
+            )
+          )
+          from public.deck_cards c
+          where c.deck_id = d.id
+        ),
+        '[]'::jsonb
+      )
+    )
+    from public.decks d
+    where d.id = saved_id
+  );
+end;
+$$;
+
+revoke execute on function public.save_deck(uuid, jsonb, jsonb, text) from public, anon;
+grant execute on function public.save_deck(uuid, jsonb, jsonb, text) to authenticated;